@@ -6,10 +6,13 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/theme-provider";
 import { useToast } from "@/components/ui/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useEffect } from "react";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { logger } from "./utils/logger";
+import { eventBus } from "./lib/eventBus";
+import { applyServiceWorkerUpdate, isServiceWorkerUpdateAvailable, onServiceWorkerEvent } from "./utils/serviceWorkerClient";
 
 const queryClient = new QueryClient();
 
@@ -18,31 +21,89 @@ const App = () => {
 
   useEffect(() => {
     if ('serviceWorker' in navigator) {
-      const handleMessage = (event: MessageEvent) => {
-        logger.log('App.tsx: Received message from Service Worker:', event.data);
-        if (event.data) {
-          switch (event.data.type) {
-            case 'SYNC_SUCCESS':
-              logger.log('App.tsx: Showing toast for successful sync');
+      const unsubscribe = onServiceWorkerEvent(event => {
+        logger.log('App.tsx: Received event from Service Worker:', event);
+        switch (event.type) {
+          case 'SYNC_SUCCESS':
+            logger.log('App.tsx: Showing toast for successful sync');
+            toast({
+              title: "Sync Successful",
+              description: "Your search results have been successfully synced.",
+              duration: 5000,
+            });
+            break;
+          case 'SYNC_ATTEMPT':
+            // Retries are shown in the sync status badge; only give-ups interrupt the user
+            if (event.entry.outcome === 'failed') {
               toast({
-                title: "Sync Successful",
-                description: "Your search results have been successfully synced.",
+                title: "Sync Failed",
+                description: event.entry.error || "Some search results could not be synced.",
+                variant: "destructive",
                 duration: 5000,
               });
-              break;
-            case 'SYNC_RECEIVED':
-              logger.log('App.tsx: Service Worker acknowledged SYNC_DATA message.');
-              break;
-          }
+            }
+            break;
+          case 'QUERY_ANSWERED':
+            toast({
+              title: "Queued Question Answered",
+              description: event.query,
+              duration: 5000,
+            });
+            break;
+          case 'QUERY_FAILED':
+            toast({
+              title: "Queued Question Failed",
+              description: `"${event.query}" could not be answered: ${event.error}`,
+              variant: "destructive",
+              duration: 5000,
+            });
+            break;
         }
-      };
+      });
 
-      navigator.serviceWorker.addEventListener('message', handleMessage);
-      logger.log('App.tsx: Added message listener for Service Worker messages');
+      // The page and the worker come from different builds until the page is reloaded
+      const handleProtocolMismatch = () => {
+        toast({
+          title: "Update Required",
+          description: "This page is out of date with the background sync worker. Reload to keep your results syncing.",
+          variant: "destructive",
+        });
+      };
+      // A new version is installed; it waits until the user agrees to reload
+      const handleUpdateAvailable = () => {
+        toast({
+          title: "New Version Available",
+          description: "Reload to update. Results waiting to sync are kept.",
+          duration: Infinity,
+          action: (
+            <ToastAction altText="Reload to update" onClick={() => applyServiceWorkerUpdate()}>
+              Reload
+            </ToastAction>
+          ),
+        });
+      };
+      // The placeholder promised an automatic answer, so a question the worker could not store must be reported
+      const handleQueueQueryFailed = (event: Event) => {
+        const { query } = (event as CustomEvent<{ query: string }>).detail;
+        toast({
+          title: "Question Not Queued",
+          description: `"${query}" could not be saved for later. Ask again when your connection returns.`,
+          variant: "destructive",
+          duration: 5000,
+        });
+      };
+      eventBus.addEventListener('sw-protocol-mismatch', handleProtocolMismatch);
+      eventBus.addEventListener('sw-update-available', handleUpdateAvailable);
+      eventBus.addEventListener('queue-query-failed', handleQueueQueryFailed);
+      if (isServiceWorkerUpdateAvailable()) handleUpdateAvailable();
+      logger.log('App.tsx: Subscribed to Service Worker events');
 
       return () => {
-        navigator.serviceWorker.removeEventListener('message', handleMessage);
-        logger.log('App.tsx: Removed message listener for Service Worker messages');
+        unsubscribe();
+        eventBus.removeEventListener('sw-protocol-mismatch', handleProtocolMismatch);
+        eventBus.removeEventListener('sw-update-available', handleUpdateAvailable);
+        eventBus.removeEventListener('queue-query-failed', handleQueueQueryFailed);
+        logger.log('App.tsx: Unsubscribed from Service Worker events');
       };
     }
   }, [toast]);
@@ -56,6 +117,8 @@ const App = () => {
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/search" element={<Index />} />
+              <Route path="/thread/:rootId" element={<Index />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -1,14 +1,18 @@
 import React, { useCallback } from 'react';
 import SearchEngine from './SearchEngine';
 import SearchHistory from './SearchHistory';
+import SettingsPanel from './SettingsPanel';
+import SyncStatusBadge from './SyncStatusBadge';
 import { Sheet, SheetContent, SheetTitle } from './ui/sheet';
 import { Badge } from './ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 import { logger } from '../utils/logger';
 import { useAppContext } from '@/contexts/AppContext';
+import { useOnlineStatus } from '@/hooks/use-online-status';
 
 const AppLayout: React.FC = () => {
   const { isHistoryOpen, toggleHistory, user, handleAnonymousSignIn } = useAppContext();
+  const isOnline = useOnlineStatus();
   
   // This function will be passed from SearchEngine
   let handleHistoryClick: (historyId: string, query: string) => void = () => {
@@ -41,6 +45,16 @@ const AppLayout: React.FC = () => {
         </SheetContent>
         <div className="relative">
           <div className="absolute top-4 right-4 flex items-center gap-2">
+            <SettingsPanel />
+            <SyncStatusBadge />
+            {!isOnline && (
+              <Tooltip>
+                <TooltipTrigger>
+                  <Badge variant="warning">Offline</Badge>
+                </TooltipTrigger>
+                <TooltipContent>Answers come from your saved threads. New questions are queued until you reconnect.</TooltipContent>
+              </Tooltip>
+            )}
             {user ? (
               user.is_anonymous && (
                 <Tooltip>
@@ -2,13 +2,15 @@ import React from 'react';
 import type { SearchResult } from '../types/search';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
+import { Badge } from './ui/badge';
 
 interface CachedResultsProps {
   results: SearchResult[];
   onSelectResult: (result: SearchResult) => void;
+  isPreview?: boolean; // Shown while a fresh answer is still being generated
 }
 
-const CachedResults: React.FC<CachedResultsProps> = ({ results, onSelectResult }) => {
+const CachedResults: React.FC<CachedResultsProps> = ({ results, onSelectResult, isPreview = false }) => {
   if (results.length === 0) {
     return null;
   }
@@ -17,13 +19,25 @@ const CachedResults: React.FC<CachedResultsProps> = ({ results, onSelectResult }
     <Card className="mt-4">
       <CardHeader>
         <CardTitle>Similar Previously Seen Results</CardTitle>
+        {isPreview && (
+          <p className="text-sm text-muted-foreground">A fresh answer is on its way and will appear here when ready.</p>
+        )}
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
           {results.map((result) => (
             <div key={result.id} className="p-4 border rounded-lg flex justify-between items-center">
               <div>
-                <h4 className="font-semibold">{result.query}</h4>
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold">{result.query}</h4>
+                  {!result.isCached ? (
+                    <Badge>New answer</Badge>
+                  ) : typeof result.similarity === 'number' && (
+                    <Badge variant="secondary" title="Similarity to your question">
+                      {Math.round(result.similarity * 100)}% match
+                    </Badge>
+                  )}
+                </div>
                 <p className="text-sm text-muted-foreground truncate max-w-md">{result.content}</p>
               </div>
               <Button onClick={() => onSelectResult(result)}>View</Button>
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ThreadSource } from '@/services/sourceService';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card';
+import SourceCard from './SourceCard';
+import SourceLink from './SourceLink';
+
+interface CitationLinkProps {
+  number: number;
+  source?: ThreadSource;
+}
+
+const CitationLink: React.FC<CitationLinkProps> = ({ number, source }) => {
+  // Sources may not have arrived yet while an answer is streaming
+  if (!source) {
+    return <sup className="text-gray-500">[{number}]</sup>;
+  }
+
+  return (
+    <HoverCard openDelay={150} closeDelay={100}>
+      <HoverCardTrigger asChild>
+        <sup>
+          <SourceLink href={source.url} className="text-blue-600 hover:underline">
+            [{number}]
+          </SourceLink>
+        </sup>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 p-3">
+        <SourceCard source={source} compact />
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
+
+export default CitationLink;
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { useSyncConfig } from '@/hooks/use-sync-config';
+import { disableNotifications, enableNotifications, notificationsSupported } from '@/services/notificationService';
+import { logger } from '@/utils/logger';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+
+// Opt-in for answer notifications; the Service Worker shows them and stores the choice
+const NotificationSettings: React.FC = () => {
+  const { config } = useSyncConfig();
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!config || !notificationsSupported()) return null;
+
+  const toggle = async (enabled: boolean) => {
+    setError(null);
+    setSaving(true);
+    try {
+      if (!enabled) {
+        await disableNotifications();
+        return;
+      }
+      const permission = await enableNotifications();
+      if (permission === 'denied') setError('Notifications are blocked for this site. Allow them in your browser settings.');
+    } catch (toggleError) {
+      logger.error('NotificationSettings: Could not change notification settings.', toggleError);
+      setError(toggleError instanceof Error ? toggleError.message : 'Could not save notification settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="answer-notifications">Notify me when answers are ready</Label>
+        <Switch
+          id="answer-notifications"
+          checked={config.notifications}
+          disabled={saving}
+          onCheckedChange={toggle}
+        />
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <p className="text-xs text-muted-foreground">
+        Shown when a long answer finishes while this tab is in the background, or when a question asked offline is answered.
+      </p>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { getAvailableProviders, getOpenAiApiKey, setOpenAiApiKey } from '@/services/llmProviderService';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+// API key for the OpenAI-compatible provider, entered by the user and kept in this browser only
+const ProviderKeySettings: React.FC = () => {
+  const [savedKey, setSavedKey] = useState(getOpenAiApiKey);
+  const [apiKey, setApiKey] = useState(savedKey);
+
+  if (!getAvailableProviders().some(provider => provider.id === 'openai')) return null;
+
+  const save = () => {
+    setOpenAiApiKey(apiKey);
+    setSavedKey(apiKey.trim());
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label htmlFor="openai-api-key">OpenAI-compatible API key</Label>
+      <div className="flex gap-2">
+        <Input
+          id="openai-api-key"
+          type="password"
+          autoComplete="off"
+          placeholder="sk-…"
+          value={apiKey}
+          onChange={event => setApiKey(event.target.value)}
+        />
+        <Button size="sm" className="h-10" disabled={apiKey.trim() === savedKey} onClick={save}>
+          Save
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Stored in this browser and sent only to the configured endpoint. Leave empty if the endpoint is a proxy that adds the key.
+      </p>
+    </div>
+  );
+};
+
+export default ProviderKeySettings;
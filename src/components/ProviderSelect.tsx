@@ -0,0 +1,38 @@
+import React from 'react';
+import { useAppContext } from '@/contexts/AppContext';
+import { getAvailableProviders, getProvider } from '@/services/llmProviderService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface ProviderSelectProps {
+  disabled?: boolean;
+}
+
+const ProviderSelect: React.FC<ProviderSelectProps> = ({ disabled = false }) => {
+  const { llmProviderId, setLlmProviderId } = useAppContext();
+  const providers = getAvailableProviders();
+
+  // Nothing to choose from unless several providers are configured for this environment
+  if (providers.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mt-3 flex items-center justify-end gap-2 text-sm text-gray-600">
+      <span>Answer with</span>
+      <Select value={getProvider(llmProviderId).id} onValueChange={setLlmProviderId} disabled={disabled}>
+        <SelectTrigger className="w-[220px] bg-white" aria-label="LLM provider">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {providers.map(provider => (
+            <SelectItem key={provider.id} value={provider.id}>
+              {provider.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default ProviderSelect;
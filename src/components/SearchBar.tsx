@@ -1,14 +1,15 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search, Sparkles } from 'lucide-react';
+import { Search, Sparkles, Square } from 'lucide-react';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  onCancel?: () => void; // Shows a Stop button while a search is in flight
   isLoading?: boolean;
 }
 
-const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading = false }) => {
+const SearchBar: React.FC<SearchBarProps> = ({ onSearch, onCancel, isLoading = false }) => {
   const [query, setQuery] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -32,20 +33,32 @@ const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading = false }) =>
             className="flex-1 border-none bg-transparent px-4 py-6 text-lg focus:ring-0 focus:outline-none"
             disabled={isLoading}
           />
-          <Button
-            type="submit"
-            disabled={!query.trim() || isLoading}
-            className="mr-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white rounded-full px-8 py-3 font-semibold transition-all duration-300 transform hover:scale-105"
-          >
-            {isLoading ? (
-              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-            ) : (
-              <>
-                <Sparkles className="mr-2 h-4 w-4" />
-                Search
-              </>
-            )}
-          </Button>
+          {isLoading && onCancel ? (
+            <Button
+              type="button"
+              onClick={onCancel}
+              className="mr-2 bg-gray-800 hover:bg-gray-900 text-white rounded-full px-8 py-3 font-semibold transition-all duration-300"
+              aria-label="Stop search"
+            >
+              <Square className="mr-2 h-4 w-4 fill-current" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!query.trim() || isLoading}
+              className="mr-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white rounded-full px-8 py-3 font-semibold transition-all duration-300 transform hover:scale-105"
+            >
+              {isLoading ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+              ) : (
+                <>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Search
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </form>
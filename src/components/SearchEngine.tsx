@@ -1,13 +1,18 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import SearchResults from './SearchResults';
 import CachedResults from './CachedResults';
 import { getSearchHistory, getConversationThread } from '@/services/cacheService';
 import { useAppContext } from '@/contexts/AppContext';
 import { Home, Brain, History, Sparkles } from 'lucide-react';
 import SearchBar from './SearchBar';
+import ProviderSelect from './ProviderSelect';
 import { searchWithDeepSeek } from '@/services/searchService';
+import { notifyAnswerIfHidden } from '@/services/notificationService';
+import { onServiceWorkerEvent } from '@/utils/serviceWorkerClient';
 import type { SearchResult } from '../types/search';
 import { logger } from '../utils/logger';
+import { toast } from '@/components/ui/use-toast';
+import { createSearchParams, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 
 export interface HistoryItem {
   id: string;
@@ -20,13 +25,42 @@ interface SearchEngineProps {
 }
 
 const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) => {
-  const { toggleHistory, addToHistory, user } = useAppContext();
+  const { toggleHistory, addToHistory, user, llmProviderId, similarityThreshold, concurrentSearch } = useAppContext();
   const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
   const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
   const [currentSearchResult, setCurrentSearchResult] = useState<SearchResult | null>(null);
   const [cachedResults, setCachedResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [forceUpdate, setForceUpdate] = useState(0);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { rootId } = useParams<{ rootId?: string }>();
+  const [searchParams] = useSearchParams();
+  const urlQuery = searchParams.get('q');
+  // Mirrors the displayed thread ID so route changes can skip reloading it
+  const currentResultIdRef = useRef<string | null>(null);
+  // Controller for the in-flight search or follow-up; aborting it stops the request
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set when the user opens a cached preview, so the fresh answer joins the list instead of taking over the view
+  const previewSelectedRef = useRef(false);
+
+  // Aborts the previous request (if any) and registers a fresh controller
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  };
+
+  // Stop button handler shared by the search bar and the follow-up forms
+  const handleCancel = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    logger.log('Cancelling in-flight search request');
+    abortControllerRef.current.abort();
+  }, []);
+
+  // Abort any pending request when the component unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
   
   // Load history items on component mount
   useEffect(() => {
@@ -46,35 +80,78 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
   // Handle new searches
   const handleSearch = async (query: string, parentResult?: SearchResult) => {
     if (!query.trim()) return;
+    const controller = startRequest();
     setIsLoading(true);
     setCurrentSearchResult(null);
     setCachedResults([]);
     setSelectedHistoryId(null);
+    previewSelectedRef.current = false;
+    const startedAt = Date.now();
     
     try {
-      const { cachedResults: similarResults, apiResults } = await searchWithDeepSeek(query, parentResult, user?.id);
-      setCachedResults(similarResults);
-      if (similarResults.length === 0) {
-        setCachedResults([]);
-      }
+      // Render the answer incrementally while it streams in; cached matches are previewed meanwhile
+      const { cachedResults: similarResults, apiResults, cancelled, queued } = await searchWithDeepSeek(
+        query,
+        parentResult,
+        user?.id,
+        {
+          onProgress: (partial) => {
+            if (!controller.signal.aborted && !previewSelectedRef.current) setCurrentSearchResult(partial);
+          },
+          onCachedResults: (preview) => {
+            if (!controller.signal.aborted) setCachedResults(preview);
+          },
+          signal: controller.signal,
+          providerId: llmProviderId,
+          similarityThreshold,
+          concurrent: concurrentSearch
+        }
+      );
 
-      // Prioritize cached results if available, otherwise use API results
-      const results = similarResults.length > 0 ? similarResults : apiResults;
+      if (cancelled) {
+        // A superseding search owns the view; only a user cancel clears it
+        if (abortControllerRef.current === controller) {
+          setCurrentSearchResult(null);
+          toast({ title: "Search cancelled", description: `Stopped searching for "${query}".`, duration: 3000 });
+        }
+        return;
+      }
+      if (queued) {
+        // Local matches are offered while the queued question waits for the connection
+        setCachedResults(similarResults);
+        setCurrentSearchResult(apiResults[0]);
+        return;
+      }
+      // A fresh answer wins and joins the cached matches; otherwise cached results are shown
+      const freshResults = apiResults.filter(r => !r.isFallback);
+      const useCached = similarResults.length > 0 && freshResults.length === 0;
+      const results = useCached ? similarResults : apiResults;
+      setCachedResults(similarResults.length > 0 && !useCached ? [freshResults[0], ...similarResults] : similarResults);
       
       if (results.length > 0) {
         const [firstResult, ...remainingResults] = results;
-        setCurrentSearchResult({
-          ...firstResult,
-          replies: [...(firstResult.replies || []), ...remainingResults],
-          isCached: similarResults.length > 0 // Mark if result came from cache
-        });
-        // Add to search history
-        addToHistory({
-          id: firstResult.id,
-          query: query,
-          timestamp: Date.now(),
-          resultId: firstResult.id
-        });
+        const showResult = !previewSelectedRef.current;
+        if (showResult) {
+          setCurrentSearchResult({
+            ...firstResult,
+            replies: [...(firstResult.replies || []), ...remainingResults],
+            isCached: useCached // Mark if result came from cache
+          });
+        }
+        // Only answers are recorded; a fallback is not, and a queued question is recorded when answered
+        if (!firstResult.isFallback) {
+          addToHistory({
+            id: firstResult.id,
+            query: query,
+            timestamp: Date.now(),
+            resultId: firstResult.id
+          });
+        }
+        // Locally stored threads get a shareable URL; remote matches and fallbacks stay on /search
+        if (showResult && !firstResult.isCached && !firstResult.isFallback) {
+          navigate(`/thread/${encodeURIComponent(firstResult.id)}`, { replace: true });
+        }
+        if (!useCached && !firstResult.isFallback) notifyAnswerIfHidden(firstResult, firstResult.id, startedAt);
       }
     } catch (error) {
       logger.error('Search failed:', error);
@@ -87,13 +164,18 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
         timestamp: new Date().toISOString()
       });
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
   // Handle follow-up searches
   const handleFollowUpSearch = async (parentId: string, query: string) => {
     if (!query.trim() || !currentSearchResult) return;
+    const controller = startRequest();
+    const startedAt = Date.now();
     
     // Set isReplying on the current result to show localized loading
     const updatedResultWithLoading = {
@@ -103,7 +185,40 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
     setCurrentSearchResult(updatedResultWithLoading);
     
     try {
-      const { cachedResults: similarResults, apiResults } = await searchWithDeepSeek(query, currentSearchResult, user?.id);
+      // Show the streamed follow-up as a pending reply until the final result arrives
+      const { cachedResults: similarResults, apiResults, cancelled } = await searchWithDeepSeek(
+        query,
+        currentSearchResult,
+        user?.id,
+        {
+          onProgress: (partial) => {
+            if (controller.signal.aborted) return;
+            setCurrentSearchResult({
+              ...updatedResultWithLoading,
+              replies: [...(currentSearchResult.replies || []), partial]
+            });
+          },
+          onCachedResults: (preview) => {
+            if (!controller.signal.aborted) setCachedResults(preview);
+          },
+          signal: controller.signal,
+          providerId: llmProviderId,
+          similarityThreshold,
+          concurrent: concurrentSearch
+        }
+      );
+
+      if (cancelled) {
+        if (abortControllerRef.current !== controller) return;
+        // Drop the pending reply and return the thread to its previous state
+        setCurrentSearchResult({
+          ...currentSearchResult,
+          isReplying: false
+        });
+        setForceUpdate(prev => prev + 1);
+        toast({ title: "Follow-up cancelled", description: `Stopped answering "${query}".`, duration: 3000 });
+        return;
+      }
       
       // Show similar cached results if available
       if (similarResults.length > 0) {
@@ -126,6 +241,13 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
         };
         setCurrentSearchResult(updatedResult);
         setForceUpdate(prev => prev + 1); // Force re-render
+        if (!results[0].isFallback) notifyAnswerIfHidden(results[0], currentSearchResult.id, startedAt);
+      } else {
+        // Only cached matches came back; they are listed above, so just clear the pending state
+        setCurrentSearchResult({
+          ...currentSearchResult,
+          isReplying: false
+        });
       }
     } catch (error) {
       logger.error('Follow-up search failed:', error);
@@ -135,15 +257,98 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
         isReplying: false
       });
       setForceUpdate(prev => prev + 1); // Force re-render on error
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  // Submitting a query navigates to /search?q=..., which runs the search below
+  const handleSubmitQuery = useCallback((query: string) => {
+    navigate({ pathname: '/search', search: `?${createSearchParams({ q: query })}` });
+  }, [navigate]);
+
+  const handleSearchRef = useRef(handleSearch);
+  handleSearchRef.current = handleSearch;
+
+  useEffect(() => {
+    currentResultIdRef.current = currentSearchResult?.id ?? null;
+  }, [currentSearchResult]);
+
+  // Rebuild the view from the URL, including on refresh and browser back/forward
+  useEffect(() => {
+    if (rootId) {
+      if (currentResultIdRef.current === rootId) return;
+      let isActive = true;
+      getConversationThread(rootId).then(thread => {
+        if (!isActive) return;
+        if (thread) {
+          setCachedResults([]);
+          setCurrentSearchResult(thread);
+        } else {
+          toast({ title: "Conversation unavailable", description: "This thread is no longer in your local cache.", duration: 5000 });
+          navigate('/', { replace: true });
+        }
+      });
+      return () => {
+        isActive = false;
+      };
+    }
+
+    if (urlQuery) {
+      handleSearchRef.current(urlQuery);
+      return;
+    }
+
+    // Home route
+    setCurrentSearchResult(null);
+    setCachedResults([]);
+  }, [location.key, rootId, urlQuery, navigate]);
+
+  // Swap the placeholder of a question queued offline for its answer once the Service Worker has it run
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    return onServiceWorkerEvent(event => {
+      if (event.type !== 'QUERY_ANSWERED') return;
+      if (event.parentId) {
+        if (currentResultIdRef.current !== event.parentId) return;
+        getConversationThread(event.parentId).then(thread => {
+          if (!thread || currentResultIdRef.current !== event.parentId) return;
+          setCurrentSearchResult(thread);
+          setForceUpdate(prev => prev + 1);
+        });
+        return;
+      }
+      // Every open tab hears the answer; history keeps one entry per query, so this replaces rather than duplicates
+      addToHistory({ id: event.resultId, query: event.query, timestamp: Date.now(), resultId: event.resultId });
+      if (currentResultIdRef.current?.startsWith('queued-') && urlQuery === event.query) {
+        navigate(`/thread/${encodeURIComponent(event.resultId)}`, { replace: true });
+      }
+    });
+  }, [addToHistory, navigate, urlQuery]);
+
+  // Notification clicks open their thread in this tab instead of a new one
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    return onServiceWorkerEvent(event => {
+      if (event.type === 'OPEN_THREAD') navigate(event.url);
+    });
+  }, [navigate]);
+
   // Handle history item click
-  const handleHistoryClick = useCallback((historyId: string, query: string) => {
+  const handleHistoryClick = useCallback(async (historyId: string, query: string) => {
     logger.log(`History item clicked: ${historyId}`);
-    // Use the same search logic as a new query to leverage built-in caching
-    handleSearch(query);
-  }, [handleSearch]);
+    // Open the cached thread directly; fall back to a new search when it has expired
+    const thread = await getConversationThread(historyId);
+    if (thread) {
+      setCachedResults([]);
+      setCurrentSearchResult(thread);
+      navigate(`/thread/${encodeURIComponent(historyId)}`);
+    } else {
+      handleSubmitQuery(query);
+    }
+  }, [navigate, handleSubmitQuery]);
 
   // Set the handleHistoryClick function for AppLayout to use
   useEffect(() => {
@@ -158,7 +363,7 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
         <div className="text-center mb-12">
           <div className="flex items-center justify-between mb-6 px-4">
             <button 
-              onClick={() => setCurrentSearchResult(null)}
+              onClick={() => navigate('/')}
               className="p-2 rounded-full hover:bg-gray-100 transition-colors"
               aria-label="Return to home"
             >
@@ -183,9 +388,10 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
           </p>
         </div>
 
-        <SearchBar onSearch={handleSearch} isLoading={isLoading} />
+        <SearchBar onSearch={handleSubmitQuery} onCancel={handleCancel} isLoading={isLoading} />
+        <ProviderSelect disabled={isLoading} />
 
-        {isLoading && (
+        {isLoading && !currentSearchResult && (
           <div className="text-center mt-12">
             <div className="inline-flex items-center space-x-2 text-purple-600">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
@@ -196,13 +402,18 @@ const SearchEngine: React.FC<SearchEngineProps> = ({ setHandleHistoryClick }) =>
 
         <CachedResults 
           results={cachedResults}
-          onSelectResult={(result) => setCurrentSearchResult(result)}
+          isPreview={isLoading}
+          onSelectResult={(result) => {
+            if (isLoading) previewSelectedRef.current = true;
+            setCurrentSearchResult(result);
+          }}
         />
         <SearchResults 
           result={currentSearchResult} 
-          isLoading={isLoading}
+          isLoading={isLoading && !currentSearchResult}
           key={`${currentSearchResult?.id || 'empty'}-${forceUpdate}`}
           onFollowUp={handleFollowUpSearch}
+          onCancelFollowUp={handleCancel}
         />
       </div>
     </div>
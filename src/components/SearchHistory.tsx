@@ -1,46 +1,188 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAppContext } from '@/contexts/AppContext';
+import { searchHistoryContent } from '@/services/cacheService';
 import { SearchHistoryItem } from '@/types/search';
 import { Button } from './ui/button';
-import { History } from 'lucide-react';
+import { Input } from './ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { History, Search, Star, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
 import { logger } from '../utils/logger';
 
 interface SearchHistoryProps {
   onSelect: (id: string, query: string) => void;
 }
 
+interface HistoryGroup {
+  label: string;
+  items: SearchHistoryItem[];
+}
+
+// Cached answers are read from IndexedDB, so wait for a pause in typing before searching them
+const FILTER_DEBOUNCE_MS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayLabel = (timestamp: number, today: Date): string => {
+  const day = new Date(timestamp);
+  day.setHours(0, 0, 0, 0);
+  const daysAgo = Math.round((today.getTime() - day.getTime()) / DAY_MS);
+  if (daysAgo === 0) return 'Today';
+  if (daysAgo === 1) return 'Yesterday';
+  return day.toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    year: day.getFullYear() === today.getFullYear() ? undefined : 'numeric',
+  });
+};
+
+// Pinned items first, then the rest by day, newest first
+const groupHistory = (items: SearchHistoryItem[]): HistoryGroup[] => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const pinned = items.filter(item => item.pinned);
+  const groups: HistoryGroup[] = pinned.length > 0 ? [{ label: 'Pinned', items: pinned }] : [];
+  items
+    .filter(item => !item.pinned)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach(item => {
+      const label = dayLabel(item.timestamp, today);
+      const last = groups[groups.length - 1];
+      if (last && last.label === label) last.items.push(item);
+      else groups.push({ label, items: [item] });
+    });
+  return groups;
+};
+
 const SearchHistory: React.FC<SearchHistoryProps> = ({ onSelect }) => {
-  const { searchHistory, loadHistory } = useAppContext();
+  const { searchHistory, loadHistory, removeFromHistory, setHistoryItemPinned, resetSearch } = useAppContext();
+  const [filter, setFilter] = useState('');
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null);
 
   useEffect(() => {
     loadHistory();
   }, [loadHistory]);
 
+  // Match the filter against queries and the cached answers behind them
+  useEffect(() => {
+    if (!filter.trim()) {
+      setMatchingIds(null);
+      return;
+    }
+    let isActive = true;
+    const timer = setTimeout(() => {
+      searchHistoryContent(searchHistory, filter).then(ids => {
+        if (isActive) setMatchingIds(ids);
+      });
+    }, FILTER_DEBOUNCE_MS);
+    return () => {
+      isActive = false;
+      clearTimeout(timer);
+    };
+  }, [filter, searchHistory]);
+
+  const groups = useMemo(
+    () => groupHistory(matchingIds ? searchHistory.filter(item => matchingIds.has(item.id)) : searchHistory),
+    [searchHistory, matchingIds]
+  );
+
   if (searchHistory.length === 0) {
     return null;
   }
 
   return (
     <div className="mt-4 bg-white rounded-lg shadow-md p-4">
-      <div className="flex items-center mb-2 text-gray-600">
-        <History className="h-5 w-5 mr-2" />
-        <h3 className="font-medium">Recent Searches</h3>
+      <div className="flex items-center justify-between mb-2 text-gray-600">
+        <div className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          <h3 className="font-medium">Recent Searches</h3>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500">
+              Clear all
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Clear search history?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This removes every search, including pinned ones, and the answers cached in this browser.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => resetSearch()}>Clear all</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+      <div className="relative mb-3">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          type="search"
+          placeholder="Search queries and answers"
+          aria-label="Filter search history"
+          className="pl-8"
+          value={filter}
+          onChange={event => setFilter(event.target.value)}
+        />
       </div>
-      <div className="space-y-2">
-        {searchHistory.map((item) => (
-          <Button
-            key={item.id}
-            variant="ghost"
-            className="w-full justify-start text-left text-gray-700 hover:bg-gray-100"
-            onClick={(e) => {
-              e.preventDefault();
-              e.stopPropagation();
-              logger.log('[DEBUG] History item clicked:', item);
-              onSelect(item.id, item.query);
-            }}
-          >
-            {item.query}
-          </Button>
+      {groups.length === 0 && (
+        <p className="py-2 text-sm text-gray-500">No searches match "{filter}".</p>
+      )}
+      <div className="space-y-3">
+        {groups.map(group => (
+          <section key={group.label} aria-label={group.label}>
+            <h4 className="mb-1 px-2 text-xs font-medium uppercase tracking-wide text-gray-400">{group.label}</h4>
+            <div className="space-y-1">
+              {group.items.map(item => (
+                <div key={item.id} className="group flex items-center rounded-md hover:bg-gray-100">
+                  <Button
+                    variant="ghost"
+                    className="min-w-0 flex-1 justify-start text-left text-gray-700 hover:bg-transparent"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      logger.log('[DEBUG] History item clicked:', item);
+                      onSelect(item.id, item.query);
+                    }}
+                  >
+                    <span className="truncate">{item.query}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-gray-400 hover:bg-transparent hover:text-yellow-500"
+                    aria-label={item.pinned ? `Unpin "${item.query}"` : `Pin "${item.query}"`}
+                    aria-pressed={!!item.pinned}
+                    onClick={() => setHistoryItemPinned(item.id, !item.pinned)}
+                  >
+                    <Star className={cn('h-4 w-4', item.pinned && 'fill-yellow-400 text-yellow-500')} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-gray-400 hover:bg-transparent hover:text-destructive"
+                    aria-label={`Delete "${item.query}"`}
+                    onClick={() => removeFromHistory(item.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </section>
         ))}
       </div>
     </div>
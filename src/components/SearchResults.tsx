@@ -5,19 +5,26 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import { logger } from '../utils/logger';
+import { buildThreadSources, linkCitations } from '../services/sourceService';
+import { parseCitationHref } from '../utils/sourceUtils';
 import ThreadedSearchResult from './ThreadedSearchResult';
 import CachedResults from './CachedResults';
+import CitationLink from './CitationLink';
+import SourcesPanel from './SourcesPanel';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
+import { Loader2, Square } from 'lucide-react';
 
 interface SearchResultsProps {
   result: SearchResult | null;
   isLoading: boolean;
   onFollowUp?: (parentId: string, query: string) => Promise<void>;
+  onCancelFollowUp?: () => void;
 }
 
-const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFollowUp }) => {
+const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFollowUp, onCancelFollowUp }) => {
   const [followUpQuery, setFollowUpQuery] = useState<string>('');
+  const [isSubmittingFollowUp, setIsSubmittingFollowUp] = useState(false);
   const [activeResult, setActiveResult] = useState<SearchResult | null>(null);
   
   useEffect(() => {
@@ -27,36 +34,21 @@ const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFoll
     }
   }, [result]);
 
-  // Parse sources to create a map of citation numbers to URLs
-  const citationMap = useMemo(() => {
-    const map: { [key: string]: string } = {};
-    if (activeResult && activeResult.sources) {
-      // Handle both string[] and string cases for sources
-      const sourcesArray = Array.isArray(activeResult.sources) 
-        ? activeResult.sources 
-        : [activeResult.sources];
-      
-      sourcesArray.forEach(source => {
-        const lines = source.split('\n');
-        lines.forEach(line => {
-          const match = line.match(/^\[(\d+)\]\s*(?:\[.*?\]\((.*?)\)|.*)/);
-          if (match) {
-            const citationNumber = match[1];
-            const url = match[2] || '#'; // Default to '#' if no URL is found
-            map[citationNumber] = url;
-          }
-        });
-      });
-    }
-    return map;
-  }, [activeResult]);
+  // Number sources once per thread so a URL cited by several answers gets a single card
+  const threadSources = useMemo(() => buildThreadSources(activeResult), [activeResult]);
+  const activeSources = activeResult ? threadSources.get(activeResult.id) : undefined;
 
   const handleFollowUpSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (followUpQuery.trim() && onFollowUp && activeResult) {
       logger.log("Submitting follow-up query for result ID:", activeResult.id, "Query:", followUpQuery);
-      await onFollowUp(activeResult.id, followUpQuery);
-      setFollowUpQuery('');
+      setIsSubmittingFollowUp(true);
+      try {
+        await onFollowUp(activeResult.id, followUpQuery);
+        setFollowUpQuery('');
+      } finally {
+        setIsSubmittingFollowUp(false);
+      }
     } else {
       logger.log("Follow-up submission blocked. onFollowUp:", !!onFollowUp, "result:", !!activeResult, "query:", followUpQuery);
     }
@@ -140,11 +132,18 @@ const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFoll
               remarkPlugins={[remarkGfm]}
               rehypePlugins={[rehypeRaw]}
               components={{
-                a: ({ href, children }: { href: string; children: React.ReactNode }) => (
-                  <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                    {children}
-                  </a>
-                ),
+                a: ({ href, children }: { href: string; children: React.ReactNode }) => {
+                  const citation = parseCitationHref(href);
+                  if (citation !== null) {
+                    const source = Object.values(activeSources?.citations || {}).find(s => s.number === citation);
+                    return <CitationLink number={citation} source={source} />;
+                  }
+                  return (
+                    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                      {children}
+                    </a>
+                  );
+                },
                 ul: ({ children }: { children: React.ReactNode }) => (
                   <ul className="list-disc pl-5 space-y-1">{children}</ul>
                 ),
@@ -154,18 +153,18 @@ const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFoll
                 li: ({ children }: { children: React.ReactNode }) => (
                   <li className="ml-2">{children}</li>
                 ),
-                text: ({ value }: { value: string }) => {
-                  // Replace citation numbers with superscript hyperlinks
-                  return value.replace(/\[(\d+)\]/g, (match, number) => {
-                    const url = citationMap[number] || '#';
-                    return `<sup><a href="${url}" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:underline">[${number}]</a></sup>`;
-                  });
-                }
               }}
             >
-              {activeResult.content}
+              {linkCitations(activeResult.content, activeSources?.citations)}
             </ReactMarkdown>
+            {activeResult.isStreaming && (
+              <div className="flex items-center space-x-2 text-sm text-purple-600 mt-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>SearchGPT is writing...</span>
+              </div>
+            )}
           </div>
+          {!activeResult.isStreaming && <SourcesPanel resultSources={activeSources} />}
           <div className="mt-4">
             <form onSubmit={handleFollowUpSubmit} className="flex gap-2">
               <Input
@@ -174,10 +173,18 @@ const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFoll
                 onChange={(e) => setFollowUpQuery(e.target.value)}
                 placeholder="Ask a follow-up question..."
                 className="flex-1"
+                disabled={activeResult.isStreaming || isSubmittingFollowUp}
               />
-              <Button type="submit" disabled={!followUpQuery.trim()}>
-                Ask
-              </Button>
+              {isSubmittingFollowUp && onCancelFollowUp ? (
+                <Button type="button" variant="outline" onClick={onCancelFollowUp} aria-label="Stop follow-up">
+                  <Square className="mr-2 h-4 w-4 fill-current" />
+                  Stop
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!followUpQuery.trim() || activeResult.isStreaming}>
+                  Ask
+                </Button>
+              )}
             </form>
           </div>
           {activeResult.replies && activeResult.replies.length > 0 && (
@@ -187,7 +194,9 @@ const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, onFoll
                 <ThreadedSearchResult 
                   key={index} 
                   result={reply} 
+                  threadSources={threadSources}
                   onFollowUp={onFollowUp}
+                  onCancelFollowUp={onCancelFollowUp}
                 />
               ))}
             </div>
@@ -204,7 +213,9 @@ export default React.memo(
     return (
       prevProps.isLoading === nextProps.isLoading &&
       prevProps.result?.id === nextProps.result?.id &&
-      prevProps.result?.content === nextProps.result?.content
+      prevProps.result?.content === nextProps.result?.content &&
+      prevProps.result?.isStreaming === nextProps.result?.isStreaming &&
+      prevProps.result?.replies === nextProps.result?.replies
     );
   }
 );
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Settings } from 'lucide-react';
+import { useAppContext } from '@/contexts/AppContext';
+import { DEFAULT_SIMILARITY_THRESHOLD } from '@/services/cacheSimilarityService';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+import SyncSettings from './SyncSettings';
+import ProviderKeySettings from './ProviderKeySettings';
+import NotificationSettings from './NotificationSettings';
+
+// Thresholds below this match too loosely to be useful answers
+const MIN_THRESHOLD_PERCENT = 50;
+
+const SettingsPanel: React.FC = () => {
+  const { similarityThreshold, setSimilarityThreshold, concurrentSearch, setConcurrentSearch } = useAppContext();
+  const thresholdPercent = Math.round(similarityThreshold * 100);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Preferences are saved in this browser.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="similarity-threshold">Cached answer threshold</Label>
+            <span className="text-sm font-medium tabular-nums">{thresholdPercent}%</span>
+          </div>
+          <Slider
+            id="similarity-threshold"
+            min={MIN_THRESHOLD_PERCENT}
+            max={100}
+            step={1}
+            value={[thresholdPercent]}
+            onValueChange={([value]) => setSimilarityThreshold(value / 100)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {concurrentSearch
+              ? 'Previously seen answers at least this similar to your question are previewed while the LLM answers. Lower values show more cached answers.'
+              : 'Previously seen answers at least this similar to your question are shown instead of asking the LLM. Lower values reuse more cached answers; higher values ask the LLM more often.'}
+          </p>
+          {thresholdPercent !== Math.round(DEFAULT_SIMILARITY_THRESHOLD * 100) && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSimilarityThreshold(DEFAULT_SIMILARITY_THRESHOLD)}>
+              Reset to {Math.round(DEFAULT_SIMILARITY_THRESHOLD * 100)}%
+            </Button>
+          )}
+        </div>
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="concurrent-search">Ask the LLM while checking the cache</Label>
+            <Switch id="concurrent-search" checked={concurrentSearch} onCheckedChange={setConcurrentSearch} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Cached matches are previewed as soon as they are found and the fresh answer is added when it arrives.
+            Turn off to only ask the LLM when nothing cached matches.
+          </p>
+        </div>
+        <ProviderKeySettings />
+        <NotificationSettings />
+        <SyncSettings />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import type { ThreadSource } from '@/services/sourceService';
+import { getFaviconUrl } from '@/utils/sourceUtils';
+import SourceLink from './SourceLink';
+
+interface SourceCardProps {
+  source: ThreadSource;
+  compact?: boolean; // Single-line layout for the citation hover preview
+}
+
+const SourceCard: React.FC<SourceCardProps> = ({ source, compact = false }) => {
+  const [faviconFailed, setFaviconFailed] = useState(false);
+
+  return (
+    <SourceLink
+      href={source.url}
+      className={`block rounded-lg text-left no-underline ${compact ? '' : 'border p-3 hover:bg-gray-50 transition-colors'}`}
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="flex-shrink-0 rounded bg-gray-100 px-1.5 font-medium text-gray-700">{source.number}</span>
+        {faviconFailed ? (
+          <Globe className="h-4 w-4 flex-shrink-0" />
+        ) : (
+          <img
+            src={getFaviconUrl(source.domain)}
+            alt=""
+            className="h-4 w-4 flex-shrink-0"
+            loading="lazy"
+            onError={() => setFaviconFailed(true)}
+          />
+        )}
+        <span className="truncate">{source.domain}</span>
+      </div>
+      <p className="mt-1 text-sm font-medium text-gray-800 line-clamp-2">{source.title || source.url}</p>
+      {source.snippet && (
+        <p className={`mt-1 text-xs text-gray-600 ${compact ? 'line-clamp-4' : 'line-clamp-2'}`}>{source.snippet}</p>
+      )}
+    </SourceLink>
+  );
+};
+
+export default SourceCard;
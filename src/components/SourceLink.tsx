@@ -0,0 +1,20 @@
+import React from 'react';
+import { isHttpUrl } from '@/utils/sourceUtils';
+
+interface SourceLinkProps {
+  href: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Source URLs come from model output and the cache, so only http(s) links are rendered; anything else is plain text
+const SourceLink: React.FC<SourceLinkProps> = ({ href, className, children }) =>
+  isHttpUrl(href) ? (
+    <a href={href} target="_blank" rel="noopener noreferrer" className={className}>
+      {children}
+    </a>
+  ) : (
+    <span className={className}>{children}</span>
+  );
+
+export default SourceLink;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { ResultSources } from '@/services/sourceService';
+import SourceCard from './SourceCard';
+import SourceLink from './SourceLink';
+
+interface SourcesPanelProps {
+  resultSources?: ResultSources;
+}
+
+const SourcesPanel: React.FC<SourcesPanelProps> = ({ resultSources }) => {
+  if (!resultSources || (resultSources.sources.length === 0 && resultSources.earlierSources.length === 0)) {
+    return null;
+  }
+
+  const { sources, earlierSources } = resultSources;
+
+  return (
+    <div className="mt-4 border-t pt-3">
+      {sources.length > 0 && (
+        <>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Sources</h4>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {sources.map(source => (
+              <SourceCard key={source.number} source={source} />
+            ))}
+          </div>
+        </>
+      )}
+      {/* Sources already listed under an earlier answer in the thread are only referenced */}
+      {earlierSources.length > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          Also cites earlier sources:{' '}
+          {earlierSources.map((source, i) => (
+            <React.Fragment key={source.number}>
+              {i > 0 && ', '}
+              <SourceLink href={source.url} className="text-blue-600 hover:underline">
+                [{source.number}] {source.domain}
+              </SourceLink>
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SourcesPanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { SyncAttemptOutcome, SyncLogEntry } from '@/lib/syncQueue';
+import { Badge } from './ui/badge';
+
+interface SyncLogPanelProps {
+  entries: SyncLogEntry[];
+}
+
+const OUTCOME_BADGES: Record<SyncAttemptOutcome, { label: string; variant: 'success' | 'warning' | 'destructive' }> = {
+  delivered: { label: 'Delivered', variant: 'success' },
+  retrying: { label: 'Will retry', variant: 'warning' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const SyncLogPanel: React.FC<SyncLogPanelProps> = ({ entries }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No sync attempts yet.</p>;
+  }
+
+  return (
+    <ul className="max-h-80 space-y-2 overflow-y-auto pr-1">
+      {entries.map(entry => {
+        const badge = OUTCOME_BADGES[entry.outcome];
+        return (
+          <li key={entry.id} className="rounded-md border p-2 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <time dateTime={new Date(entry.at).toISOString()} className="text-muted-foreground">
+                {new Date(entry.at).toLocaleString()}
+              </time>
+              <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+            </div>
+            <p className="mt-1">
+              {entry.entries} {entry.entries === 1 ? 'entry' : 'entries'} · {formatBytes(entry.bytes)} · attempt {entry.attempt}
+            </p>
+            {entry.error && <p className="mt-1 break-words text-destructive">{entry.error}</p>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SyncLogPanel;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { useSyncConfig } from '@/hooks/use-sync-config';
+import { MAX_SYNC_BATCH_SIZE, syncConfigUpdateSchema, type SyncConfig } from '@/lib/syncConfig';
+import { LOG_LEVELS, logger, type LogLevel } from '@/utils/logger';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+
+// Background sync settings, stored by the Service Worker rather than in this page
+const SyncSettings: React.FC = () => {
+  const { config, updateConfig } = useSyncConfig();
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [batchSize, setBatchSize] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!config) return;
+    setWebhookUrl(config.webhookUrl || '');
+    setBatchSize(String(config.batchSize));
+  }, [config]);
+
+  if (!config) return null;
+
+  const apply = async (update: Partial<SyncConfig>) => {
+    const parsed = syncConfigUpdateSchema.safeParse(update);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await updateConfig(update);
+    } catch (updateError) {
+      logger.error('SyncSettings: Could not update the sync configuration.', updateError);
+      setError(updateError instanceof Error ? updateError.message : 'Could not save sync settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dirty = webhookUrl !== (config.webhookUrl || '') || batchSize !== String(config.batchSize);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="sync-enabled">Sync answers to the webhook</Label>
+        <Switch
+          id="sync-enabled"
+          checked={config.enabled}
+          disabled={saving}
+          onCheckedChange={enabled => apply({ enabled })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="sync-webhook-url">Webhook URL</Label>
+        <Input
+          id="sync-webhook-url"
+          type="url"
+          placeholder="https://example.com/webhook"
+          value={webhookUrl}
+          onChange={event => setWebhookUrl(event.target.value)}
+        />
+      </div>
+      <div className="flex items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="sync-batch-size">Batch size</Label>
+          <Input
+            id="sync-batch-size"
+            type="number"
+            min={1}
+            max={MAX_SYNC_BATCH_SIZE}
+            className="w-24"
+            value={batchSize}
+            onChange={event => setBatchSize(event.target.value)}
+          />
+        </div>
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="sync-log-level">Worker log level</Label>
+          <Select value={config.logLevel} onValueChange={logLevel => apply({ logLevel: logLevel as LogLevel })}>
+            <SelectTrigger id="sync-log-level">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOG_LEVELS.map(level => (
+                <SelectItem key={level} value={level}>{level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          Answers are sent in batches to this webhook. Leave the URL empty to stop syncing.
+        </p>
+        <Button
+          size="sm"
+          disabled={!dirty || saving}
+          onClick={() => apply({ webhookUrl: webhookUrl.trim() || null, batchSize: Number(batchSize) })}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { AlertTriangle, Check, Clock, RefreshCw } from 'lucide-react';
+import { useSyncStatus, type SyncState } from '@/hooks/use-sync-status';
+import { useSyncConfig } from '@/hooks/use-sync-config';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { logger } from '@/utils/logger';
+import SyncLogPanel from './SyncLogPanel';
+
+const BADGE_VARIANTS: Record<SyncState, 'outline' | 'info' | 'warning' | 'destructive'> = {
+  idle: 'outline',
+  syncing: 'info',
+  pending: 'warning',
+  failed: 'destructive',
+};
+
+const SyncStatusBadge: React.FC = () => {
+  const { state, pending, failed, log, retryFailed, discardFailed } = useSyncStatus();
+  const { config } = useSyncConfig();
+
+  // Nothing is synced while the worker has no webhook or sync is turned off, and nothing can be without a Service Worker
+  if (!config?.webhookUrl || !config.enabled) {
+    return null;
+  }
+
+  const label = {
+    idle: 'Synced',
+    syncing: 'Syncing',
+    pending: `${pending} pending`,
+    failed: `${failed} failed`,
+  }[state];
+  const Icon = { idle: Check, syncing: RefreshCw, pending: Clock, failed: AlertTriangle }[state];
+
+  return (
+    <Popover>
+      <PopoverTrigger aria-label={`Sync status: ${label}`}>
+        <Badge variant={BADGE_VARIANTS[state]} className={state === 'idle' ? 'bg-background gap-1' : 'gap-1'}>
+          <Icon className={state === 'syncing' ? 'h-3 w-3 animate-spin' : 'h-3 w-3'} />
+          {label}
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <h4 className="mb-1 text-sm font-semibold">Sync log</h4>
+        <p className="mb-3 text-xs text-muted-foreground">
+          {pending} {pending === 1 ? 'entry' : 'entries'} waiting, {failed} failed.
+        </p>
+        {failed > 0 && (
+          <div className="mb-3 flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => retryFailed().catch(error => logger.error('SyncStatusBadge: Could not retry failed batches.', error))}
+            >
+              Retry failed
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => discardFailed().catch(error => logger.error('SyncStatusBadge: Could not discard failed batches.', error))}
+            >
+              Discard
+            </Button>
+          </div>
+        )}
+        <SyncLogPanel entries={log} />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusBadge;
@@ -1,28 +1,39 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import type { SearchResult } from '../types/search';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { ChevronDown, ChevronRight, Loader2, Square } from 'lucide-react';
 import SearchBar from './SearchBar';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { buildThreadSources, linkCitations, type ResultSources } from '../services/sourceService';
+import { parseCitationHref } from '../utils/sourceUtils';
+import CitationLink from './CitationLink';
+import SourcesPanel from './SourcesPanel';
 
 interface ThreadedSearchResultProps {
   result: SearchResult;
   onFollowUp: (parentId: string, query: string) => Promise<void>;
+  onCancelFollowUp?: () => void;
+  threadSources?: Map<string, ResultSources>; // Thread-wide source numbering from the enclosing view
   depth?: number;
 }
 
 const ThreadedSearchResult: React.FC<ThreadedSearchResultProps> = ({ 
   result, 
   onFollowUp,
+  onCancelFollowUp,
+  threadSources,
   depth = 0 
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [followUpQuery, setFollowUpQuery] = useState('');
+  // Fall back to numbering this subtree on its own when rendered outside a thread view
+  const ownThreadSources = useMemo(() => (threadSources ? null : buildThreadSources(result)), [threadSources, result]);
+  const resultSources = (threadSources || ownThreadSources)?.get(result.id);
 
   const handleFollowUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,29 +48,24 @@ const ThreadedSearchResult: React.FC<ThreadedSearchResultProps> = ({
     }
   };
 
-  const formatContent = (content: string, sources?: string | string[]) => {
-    // Parse sources to create a map of citation numbers to URLs
-    const citationMap: { [key: string]: string } = {};
-    if (sources) {
-      const lines = Array.isArray(sources) ? sources : sources.split('\n');
-      lines.forEach(line => {
-        const match = line.match(/^\[(\d+)\]\s*(?:\[.*?\]\((.*?)\)|.*)/);
-        if (match) {
-          const citationNumber = match[1];
-          const url = match[2] || '#'; // Default to '#' if no URL is found
-          citationMap[citationNumber] = url;
-        }
-      });
-    }
+  const formatContent = (content: string) => {
+    const citations = resultSources?.citations || {};
     return (
       <ReactMarkdown 
         remarkPlugins={[remarkGfm]}
         components={{
-          a: ({ href, children }: { href: string; children: React.ReactNode }) => (
-            <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-              {children}
-            </a>
-          ),
+          a: ({ href, children }: { href: string; children: React.ReactNode }) => {
+            const citation = parseCitationHref(href);
+            if (citation !== null) {
+              const source = Object.values(citations).find(s => s.number === citation);
+              return <CitationLink number={citation} source={source} />;
+            }
+            return (
+              <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                {children}
+              </a>
+            );
+          },
           ul: ({ children }: { children: React.ReactNode }) => (
             <ul className="list-disc pl-5 space-y-1">{children}</ul>
           ),
@@ -69,37 +75,9 @@ const ThreadedSearchResult: React.FC<ThreadedSearchResultProps> = ({
           li: ({ children }: { children: React.ReactNode }) => (
             <li className="ml-2">{children}</li>
           ),
-          text: ({ value }: { value: string }) => {
-            // Replace citation numbers with superscript hyperlinks
-            const parts = value.split(/(\[\d+\])/g);
-            return (
-              <>
-                {parts.map((part, i) => {
-                  const match = part.match(/\[(\d+)\]/);
-                  if (match) {
-                    const number = match[1];
-                    const url = citationMap[number] || '#';
-                    return (
-                      <sup key={i}>
-                        <a 
-                          href={url} 
-                          target="_blank" 
-                          rel="noopener noreferrer" 
-                          className="text-blue-600 hover:underline"
-                        >
-                          [{number}]
-                        </a>
-                      </sup>
-                    );
-                  }
-                  return part;
-                })}
-              </>
-            );
-          }
         }}
       >
-        {content}
+        {linkCitations(content, citations)}
       </ReactMarkdown>
     );
   };
@@ -136,18 +114,34 @@ const ThreadedSearchResult: React.FC<ThreadedSearchResultProps> = ({
           </div>
         </CardHeader>
         <CardContent>
-          {formatContent(result.content, result.sources)}
-          <form onSubmit={handleFollowUp} className="mt-4 flex gap-2">
-            <Input
-              value={followUpQuery}
-              onChange={(e) => setFollowUpQuery(e.target.value)}
-              placeholder="Ask a follow-up question..."
-              disabled={isLoading || result.isReplying}
-            />
-            <Button type="submit" disabled={isLoading || result.isReplying || !followUpQuery.trim()}>
-              {isLoading || result.isReplying ? <Loader2 className="animate-spin mr-2" /> : 'Ask'}
-            </Button>
-          </form>
+          {formatContent(result.content)}
+          {result.isStreaming && (
+            <div className="flex items-center space-x-2 text-sm text-purple-600 mt-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>SearchGPT is writing...</span>
+            </div>
+          )}
+          {!result.isStreaming && <SourcesPanel resultSources={resultSources} />}
+          {!result.isQueued && (
+            <form onSubmit={handleFollowUp} className="mt-4 flex gap-2">
+              <Input
+                value={followUpQuery}
+                onChange={(e) => setFollowUpQuery(e.target.value)}
+                placeholder="Ask a follow-up question..."
+                disabled={isLoading || result.isReplying || result.isStreaming}
+              />
+              {isLoading && onCancelFollowUp ? (
+                <Button type="button" variant="outline" onClick={onCancelFollowUp} aria-label="Stop follow-up">
+                  <Square className="mr-2 h-4 w-4 fill-current" />
+                  Stop
+                </Button>
+              ) : (
+                <Button type="submit" disabled={isLoading || result.isReplying || result.isStreaming || !followUpQuery.trim()}>
+                  {isLoading || result.isReplying ? <Loader2 className="animate-spin mr-2" /> : 'Ask'}
+                </Button>
+              )}
+            </form>
+          )}
         </CardContent>
       </Card>
 
@@ -156,6 +150,8 @@ const ThreadedSearchResult: React.FC<ThreadedSearchResultProps> = ({
           key={reply.id}
           result={reply}
           onFollowUp={onFollowUp}
+          onCancelFollowUp={onCancelFollowUp}
+          threadSources={threadSources || ownThreadSources}
           depth={depth + 1}
         />
       ))}
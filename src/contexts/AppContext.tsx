@@ -1,8 +1,23 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { getSearchHistory, saveSearchHistoryItem } from '../services/cacheService';
+import {
+  clearCache,
+  clearSearchHistory,
+  deleteSearchHistoryItem,
+  getSearchHistory,
+  saveSearchHistoryItem,
+  setSearchHistoryItemPinned,
+} from '../services/cacheService';
 import { SearchHistoryItem } from '../types/search';
 import { signInAnonymously, supabase } from '../lib/supabase';
 import { logger } from '../utils/logger';
+import { DEFAULT_PROVIDER_ID } from '../services/llmProviderService';
+import { DEFAULT_SIMILARITY_THRESHOLD } from '../services/cacheSimilarityService';
+import { DEFAULT_CONCURRENT_SEARCH } from '../services/searchService';
+
+const LLM_PROVIDER_KEY = 'searchGptLlmProvider';
+const SIMILARITY_THRESHOLD_KEY = 'searchGptSimilarityThreshold';
+const CONCURRENT_SEARCH_KEY = 'searchGptConcurrentSearch';
+const MAX_UNPINNED_HISTORY_ITEMS = 50;
 
 interface User {
   id: string;
@@ -13,7 +28,9 @@ interface AppContextType {
   searchHistory: SearchHistoryItem[];
   addToHistory: (item: SearchHistoryItem) => void;
   loadHistory: () => Promise<void>;
-  resetSearch: () => void;
+  removeFromHistory: (id: string) => Promise<void>;
+  setHistoryItemPinned: (id: string, pinned: boolean) => Promise<void>;
+  resetSearch: () => Promise<void>;
   isHistoryOpen: boolean;
   toggleHistory: () => void;
   user: User | null;
@@ -21,13 +38,21 @@ interface AppContextType {
   fingerprintId: string | null;
   resetFingerprintId: () => void;
   handleAnonymousSignIn: () => Promise<void>;
+  llmProviderId: string;
+  setLlmProviderId: (id: string) => void;
+  similarityThreshold: number;
+  setSimilarityThreshold: (threshold: number) => void;
+  concurrentSearch: boolean;
+  setConcurrentSearch: (enabled: boolean) => void;
 }
 
 const defaultAppContext: AppContextType = {
   searchHistory: [],
   addToHistory: () => {},
   loadHistory: async () => {},
-  resetSearch: () => {},
+  removeFromHistory: async () => {},
+  setHistoryItemPinned: async () => {},
+  resetSearch: async () => {},
   isHistoryOpen: false,
   toggleHistory: () => {},
   user: null,
@@ -35,6 +60,12 @@ const defaultAppContext: AppContextType = {
   fingerprintId: null,
   resetFingerprintId: () => {},
   handleAnonymousSignIn: async () => {},
+  llmProviderId: DEFAULT_PROVIDER_ID,
+  setLlmProviderId: () => {},
+  similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+  setSimilarityThreshold: () => {},
+  concurrentSearch: DEFAULT_CONCURRENT_SEARCH,
+  setConcurrentSearch: () => {},
 };
 
 const AppContext = createContext<AppContextType>(defaultAppContext);
@@ -46,8 +77,36 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [fingerprintId, setFingerprintId] = useState<string | null>(null);
+  const [llmProviderId, setLlmProviderIdState] = useState<string>(
+    () => localStorage.getItem(LLM_PROVIDER_KEY) || DEFAULT_PROVIDER_ID
+  );
+  const [similarityThreshold, setSimilarityThresholdState] = useState<number>(() => {
+    const stored = Number(localStorage.getItem(SIMILARITY_THRESHOLD_KEY));
+    return stored > 0 && stored <= 1 ? stored : DEFAULT_SIMILARITY_THRESHOLD;
+  });
+  const [concurrentSearch, setConcurrentSearchState] = useState<boolean>(() => {
+    const stored = localStorage.getItem(CONCURRENT_SEARCH_KEY);
+    return stored === null ? DEFAULT_CONCURRENT_SEARCH : stored === 'true';
+  });
   const toggleHistory = useCallback(() => setIsHistoryOpen(prev => !prev), []);
 
+  // Remember the provider chosen in the UI across sessions
+  const setLlmProviderId = useCallback((id: string) => {
+    localStorage.setItem(LLM_PROVIDER_KEY, id);
+    setLlmProviderIdState(id);
+  }, []);
+
+  // Remember the cached-match threshold chosen in settings across sessions
+  const setSimilarityThreshold = useCallback((threshold: number) => {
+    localStorage.setItem(SIMILARITY_THRESHOLD_KEY, String(threshold));
+    setSimilarityThresholdState(threshold);
+  }, []);
+
+  const setConcurrentSearch = useCallback((enabled: boolean) => {
+    localStorage.setItem(CONCURRENT_SEARCH_KEY, String(enabled));
+    setConcurrentSearchState(enabled);
+  }, []);
+
   const resetFingerprintId = useCallback(() => {
     localStorage.removeItem('searchGptFingerprintId');
     const newFingerprintId = uuid.v4();
@@ -109,10 +168,11 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         // If not exists, add the new item
         updatedHistory = [item, ...prev];
       }
-      // Keep only the last 50 items
-      return updatedHistory.slice(0, 50);
+      // Keep pinned items and the last 50 others
+      let unpinned = 0;
+      return updatedHistory.filter(h => h.pinned || ++unpinned <= MAX_UNPINNED_HISTORY_ITEMS);
     });
-    await saveSearchHistoryItem(item); // Persist to localStorage immediately
+    await saveSearchHistoryItem(item); // Persist to IndexedDB immediately
   }, []);
 
   const loadHistory = useCallback(async () => {
@@ -120,10 +180,23 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setSearchHistory(history);
   }, []);
 
-  const resetSearch = useCallback(() => {
+  const removeFromHistory = useCallback(async (id: string) => {
+    setSearchHistory(prev => {
+      const removed = prev.find(h => h.id === id);
+      return prev.filter(h => h.id !== id && h.query !== removed?.query);
+    });
+    await deleteSearchHistoryItem(id);
+  }, []);
+
+  const setHistoryItemPinned = useCallback(async (id: string, pinned: boolean) => {
+    setSearchHistory(prev => prev.map(h => (h.id === id ? { ...h, pinned } : h)));
+    await setSearchHistoryItemPinned(id, pinned);
+  }, []);
+
+  // Forgets every search: the history and the cached threads behind it
+  const resetSearch = useCallback(async () => {
     setSearchHistory([]);
-    // Optionally clear history from localStorage as well
-    // clearSearchHistory(); 
+    await Promise.all([clearSearchHistory(), clearCache()]);
   }, []);
 
   const handleAnonymousSignIn = useCallback(async () => {
@@ -149,6 +222,8 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         searchHistory,
         addToHistory,
         loadHistory,
+        removeFromHistory,
+        setHistoryItemPinned,
         resetSearch,
         isHistoryOpen,
         toggleHistory,
@@ -156,7 +231,13 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setUser,
         fingerprintId,
         resetFingerprintId,
-        handleAnonymousSignIn
+        handleAnonymousSignIn,
+        llmProviderId,
+        setLlmProviderId,
+        similarityThreshold,
+        setSimilarityThreshold,
+        concurrentSearch,
+        setConcurrentSearch
       }}
     >
       {children}
@@ -0,0 +1,18 @@
+import * as React from "react";
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+};
+
+/**
+ * Follows the browser's connectivity through the `online` and `offline` events.
+ * @returns Whether the browser is online.
+ */
+export function useOnlineStatus() {
+  return React.useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
+}
@@ -0,0 +1,25 @@
+import * as React from "react";
+import type { SyncConfig } from "@/lib/syncConfig";
+import { eventBus } from "@/lib/eventBus";
+import { fetchSyncConfig, getActiveSyncConfig, updateSyncConfig } from "@/utils/serviceWorkerClient";
+import { logger } from "@/utils/logger";
+
+/**
+ * Follows the Service Worker's sync configuration: read on mount, then kept current through
+ * `sync-config-change`, which also fires when another tab changes it.
+ * `config` stays null while there is no Service Worker to ask.
+ */
+export function useSyncConfig() {
+  const [config, setConfig] = React.useState<SyncConfig | null>(getActiveSyncConfig);
+
+  React.useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const handleChange = (event: Event) => setConfig((event as CustomEvent<SyncConfig>).detail);
+    eventBus.addEventListener("sync-config-change", handleChange);
+    fetchSyncConfig().catch(error => logger.error("Sync config: Could not read the Service Worker's configuration.", error));
+    return () => eventBus.removeEventListener("sync-config-change", handleChange);
+  }, []);
+
+  return { config, updateConfig: updateSyncConfig };
+}
@@ -0,0 +1,62 @@
+import * as React from "react";
+import type { SyncLogEntry, SyncQueueCounts } from "@/lib/syncQueue";
+import { onServiceWorkerEvent, requestServiceWorker } from "@/utils/serviceWorkerClient";
+import { logger } from "@/utils/logger";
+
+export type SyncState = "idle" | "pending" | "syncing" | "failed";
+
+// Matches the number of attempts the worker keeps in its log
+const MAX_LOG_ENTRIES = 50;
+
+/**
+ * Follows the Service Worker's sync queue: the current status and log on mount,
+ * then counts and activity from SYNC_STATUS and new delivery attempts from SYNC_ATTEMPT.
+ * `retryFailed` and `discardFailed` act on the batches the worker gave up on.
+ */
+export function useSyncStatus() {
+  const [counts, setCounts] = React.useState<SyncQueueCounts>({ pending: 0, failed: 0 });
+  const [syncing, setSyncing] = React.useState(false);
+  const [log, setLog] = React.useState<SyncLogEntry[]>([]);
+
+  React.useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const unsubscribe = onServiceWorkerEvent(event => {
+      switch (event.type) {
+        case "SYNC_STATUS":
+          setCounts({ pending: event.pending, failed: event.failed });
+          setSyncing(event.syncing);
+          break;
+        case "SYNC_ATTEMPT":
+          setLog(prev => [event.entry, ...prev.filter(e => e.id !== event.entry.id)].slice(0, MAX_LOG_ENTRIES));
+          break;
+      }
+    });
+
+    Promise.all([
+      requestServiceWorker({ type: "GET_SYNC_STATUS" }),
+      requestServiceWorker({ type: "GET_SYNC_LOG" }),
+    ])
+      .then(([status, { entries }]) => {
+        setCounts({ pending: status.pending, failed: status.failed });
+        setSyncing(status.syncing);
+        setLog(entries);
+      })
+      .catch(error => logger.error("Sync status: Could not read the Service Worker's sync queue.", error));
+    return unsubscribe;
+  }, []);
+
+  const state: SyncState = syncing
+    ? "syncing"
+    : counts.failed > 0
+      ? "failed"
+      : counts.pending > 0
+        ? "pending"
+        : "idle";
+
+  // Failed batches stay until the user retries or discards them; the worker then reports the new counts
+  const retryFailed = React.useCallback(() => requestServiceWorker({ type: "RETRY_FAILED_SYNC" }), []);
+  const discardFailed = React.useCallback(() => requestServiceWorker({ type: "DISCARD_FAILED_SYNC" }), []);
+
+  return { state, ...counts, log, retryFailed, discardFailed };
+}
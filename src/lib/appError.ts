@@ -0,0 +1,12 @@
+// src/lib/appError.ts
+
+/**
+ * Base class of the app's errors. `code` identifies the failure (e.g. `CACHE-404`) and `context`
+ * carries details for the logs; subclasses only set `name`.
+ */
+export class AppError extends Error {
+  constructor(public code: string, message: string, public context?: object) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
@@ -0,0 +1,221 @@
+// src/lib/cacheRepository.ts
+
+/**
+ * Typed access to the Supabase semantic cache tables. It is the only module that queries them:
+ * - `cachedQueryResults`: links a user's query hash to matching `cache` rows (written by the similarity webhook).
+ * - `cache`: one embedded entry per cached answer, pointing at its `cacheUserResults` row.
+ * - `cacheUserResults`: the answers themselves.
+ *
+ * Lookups share one retry policy and one mapping to `SearchResult`, so every caller
+ * returns cached results with the same IDs and fields.
+ */
+import { supabase } from './supabase';
+import { AppError } from './appError';
+import { logger } from '../utils/logger';
+import { normalizeSources } from '../services/answerParserService';
+import type { SearchResult } from '../types/search';
+import type { FunctionReturns, Tables } from '../types/supabase';
+
+export type CachedQueryResultRow = Tables<'cachedQueryResults'>;
+export type CacheRow = Omit<Tables<'cache'>, 'embeddings'>;
+export type CacheUserResultRow = Tables<'cacheUserResults'>;
+
+// A cacheUserResults row ranked by the match_cached_results RPC
+export type MatchedCacheUserResultRow = FunctionReturns<'match_cached_results'>[number];
+
+// The answer columns both lookups return; only RPC rows carry a similarity
+export type CachedAnswerRow = Omit<CacheUserResultRow, 'fingerprint_id' | 'user_id'> & { similarity?: number };
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelay: number; // Doubled after every empty attempt
+}
+
+export class CacheRepositoryError extends AppError {
+  name = 'CacheRepositoryError';
+}
+
+// Five attempts, waiting 1s, 2s, 4s and 8s between them
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 5, initialDelay: 1000 };
+
+export const MAX_CACHED_RESULTS = 5;
+
+const MATCH_CACHED_RESULTS_RPC = 'match_cached_results';
+
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted.
+ * @param ms - The delay in milliseconds.
+ * @param signal - Optional signal that cancels the wait.
+ * @returns A promise that resolves after the delay.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CacheRepositoryError('CACHE-499', 'Lookup cancelled'));
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CacheRepositoryError('CACHE-499', 'Lookup cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation until it returns a non-empty list, backing off exponentially between attempts.
+ * Errors from an attempt are logged and retried; cancellation stops immediately.
+ * @param operation - The operation to run.
+ * @param policy - The retry policy.
+ * @param signal - Optional signal that cancels the retries.
+ * @returns The first non-empty result, or an empty list when every attempt came back empty.
+ */
+async function withRetry<T>(
+  operation: () => Promise<T[]>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T[]> {
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    if (signal?.aborted) throw new CacheRepositoryError('CACHE-499', 'Lookup cancelled');
+    try {
+      const results = await operation();
+      if (results.length > 0) return results;
+    } catch (error) {
+      if (signal?.aborted) throw new CacheRepositoryError('CACHE-499', 'Lookup cancelled');
+      logger.error('Cache repository attempt failed:', { attempt, error });
+    }
+    if (attempt < policy.maxAttempts) {
+      await wait(policy.initialDelay * Math.pow(2, attempt - 1), signal);
+    }
+  }
+  logger.log('Cache repository: no results after all retry attempts.');
+  return [];
+}
+
+/**
+ * Reads the `cachedQueryResults` rows for a user's query hash.
+ * @param userId - The user's unique identifier.
+ * @param queryHash - The SHA-512 hash of the query.
+ * @param signal - Optional signal that cancels the request.
+ * @returns The matching rows.
+ */
+async function fetchCachedQueryResults(userId: string, queryHash: string, signal?: AbortSignal): Promise<CachedQueryResultRow[]> {
+  const request = supabase
+    .from('cachedQueryResults')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('user_query_hash', queryHash);
+  const { data, error } = await (signal ? request.abortSignal(signal) : request);
+  if (error) throw new CacheRepositoryError('CACHE-500', 'Failed to fetch cached query results', { originalError: error });
+  return data || [];
+}
+
+/**
+ * Reads `cache` rows by ID.
+ * @param cacheIds - The cache IDs.
+ * @param signal - Optional signal that cancels the request.
+ * @returns The cache rows.
+ */
+async function fetchCacheEntries(cacheIds: number[], signal?: AbortSignal): Promise<CacheRow[]> {
+  const request = supabase
+    .from('cache')
+    .select('id, created_at, cache_user_result, query_hash')
+    .in('id', cacheIds);
+  const { data, error } = await (signal ? request.abortSignal(signal) : request);
+  if (error) throw new CacheRepositoryError('CACHE-500', 'Failed to fetch cache entries', { originalError: error });
+  return data || [];
+}
+
+/**
+ * Reads `cacheUserResults` rows by ID.
+ * @param userResultIds - The user result IDs.
+ * @param signal - Optional signal that cancels the request.
+ * @returns Up to `MAX_CACHED_RESULTS` rows.
+ */
+async function fetchUserResults(userResultIds: number[], signal?: AbortSignal): Promise<CacheUserResultRow[]> {
+  const request = supabase
+    .from('cacheUserResults')
+    .select('*')
+    .in('id', userResultIds)
+    .limit(MAX_CACHED_RESULTS);
+  const { data, error } = await (signal ? request.abortSignal(signal) : request);
+  if (error) throw new CacheRepositoryError('CACHE-500', 'Failed to fetch user results', { originalError: error });
+  return data || [];
+}
+
+/**
+ * Finds the cached answers linked to a query hash, walking `cachedQueryResults` → `cache` →
+ * `cacheUserResults`. The first step is retried while the webhook has not written its rows yet.
+ * @param userId - The user's unique identifier.
+ * @param queryHash - The SHA-512 hash of the query.
+ * @param options - Optional retry policy and cancellation signal.
+ * @returns The cached answers, or an empty list when none appeared.
+ */
+export async function findCachedResultsByQueryHash(
+  userId: string,
+  queryHash: string,
+  { policy = DEFAULT_RETRY_POLICY, signal }: { policy?: RetryPolicy; signal?: AbortSignal } = {}
+): Promise<CacheUserResultRow[]> {
+  const queryResults = await withRetry(() => fetchCachedQueryResults(userId, queryHash, signal), policy, signal);
+  if (queryResults.length === 0) return [];
+
+  const cacheEntries = await fetchCacheEntries(queryResults.map(r => r.cache_id), signal);
+  if (cacheEntries.length === 0) return [];
+
+  return fetchUserResults(cacheEntries.map(e => e.cache_user_result), signal);
+}
+
+/**
+ * Ranks the user's cached answers by similarity to a query embedding with the pgvector RPC.
+ * @param userId - The user's unique identifier; only their answers are matched.
+ * @param embedding - The query embedding.
+ * @param threshold - The minimum cosine similarity.
+ * @param signal - Optional signal that cancels the request.
+ * @returns Up to `MAX_CACHED_RESULTS` rows, most similar first.
+ */
+export async function matchCachedResults(
+  userId: string,
+  embedding: number[],
+  threshold: number,
+  signal?: AbortSignal
+): Promise<MatchedCacheUserResultRow[]> {
+  const request = supabase.rpc(MATCH_CACHED_RESULTS_RPC, {
+    query_embedding: JSON.stringify(embedding), // pgvector parses the '[x, y, ...]' text form
+    match_user_id: userId,
+    match_threshold: threshold,
+    match_count: MAX_CACHED_RESULTS,
+  });
+  const { data, error } = await (signal ? request.abortSignal(signal) : request);
+  if (error) throw new CacheRepositoryError('RPC-500', 'Similarity RPC failed', { originalError: error });
+  return data || [];
+}
+
+/**
+ * Maps a `cacheUserResults` row to the SearchResult shown in the UI.
+ * @param row - The row, with a similarity score when it came from the RPC.
+ * @param query - The user's query, used when the row has none.
+ * @returns The cached SearchResult.
+ */
+export function toCachedSearchResult(
+  row: CachedAnswerRow,
+  query: string
+): SearchResult {
+  const resultQuery = row.query || query;
+  return {
+    id: `cached-${row.id}`,
+    query: resultQuery,
+    title: `Cached Result for: ${resultQuery}`,
+    content: row.content,
+    sources: normalizeSources(row.sources),
+    timestamp: new Date(row.updated_at || row.created_at).getTime(),
+    isCached: true,
+    similarity: row.similarity,
+    // Confidence is a percentage; unscored matches keep the previous high default
+    confidence: typeof row.similarity === 'number' ? Math.round(row.similarity * 100) : 90,
+    category: 'Cached',
+    ...(row.parent_id ? { parentId: row.parent_id } : {}),
+    ...(row.root_id ? { rootId: row.root_id } : {}),
+    ...(row.followUpQuery ? { followUpQuery: row.followUpQuery } : {}),
+  };
+}
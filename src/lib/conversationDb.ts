@@ -0,0 +1,178 @@
+// src/lib/conversationDb.ts
+
+/**
+ * Thin promise wrapper around the IndexedDB database that backs the conversation cache.
+ * It has no dependency on `window` or `localStorage`, so it can be imported from both
+ * the page (via `cacheService.ts`) and the Service Worker.
+ *
+ * Stores:
+ * - `conversations`: one record per SearchResult, indexed by `parentId`, `rootId` and `timestamp`.
+ * - `history`: SearchHistoryItem records, indexed by `timestamp`.
+ */
+import type { SearchResult, SearchHistoryItem } from '../types/search';
+
+export const DB_NAME = 'shodhan-cache';
+const DB_VERSION = 1;
+
+export const CONVERSATION_STORE = 'conversations';
+export const HISTORY_STORE = 'history';
+
+export interface ConversationRecord {
+  id: string;
+  value: SearchResult;
+  expires: number;
+  timestamp: number;
+  parentId?: string;
+  rootId: string; // ID of the thread's root result; equals `id` for roots
+  lastAccessed?: number; // Last read or write, used for LRU eviction
+  size?: number; // Approximate serialized size in bytes
+}
+
+export type HistoryRecord = SearchHistoryItem;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the conversation database.
+ * The connection is shared for the lifetime of the page or worker.
+ * @returns A Promise that resolves with the open database.
+ */
+export const openConversationDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATION_STORE)) {
+        const conversations = db.createObjectStore(CONVERSATION_STORE, { keyPath: 'id' });
+        conversations.createIndex('parentId', 'parentId');
+        conversations.createIndex('rootId', 'rootId');
+        conversations.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        history.createIndex('timestamp', 'timestamp');
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version (e.g. from an updated Service Worker) upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Resolves with the result of an IndexedDB request.
+ * @param request The request to wait for.
+ * @returns A Promise that resolves with `request.result`.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once a transaction has committed.
+ * @param tx The transaction to wait for.
+ * @returns A Promise that resolves on `complete` and rejects on `error` or `abort`.
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted.'));
+  });
+
+/**
+ * Reads a single conversation record by result ID.
+ * @param id The SearchResult ID.
+ * @returns A Promise that resolves with the record, or undefined when missing.
+ */
+export const getConversationRecord = async (id: string): Promise<ConversationRecord | undefined> => {
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_STORE, 'readonly');
+  return requestToPromise<ConversationRecord | undefined>(tx.objectStore(CONVERSATION_STORE).get(id));
+};
+
+/**
+ * Reads every conversation record that belongs to the given thread.
+ * @param rootId The ID of the thread's root result.
+ * @returns A Promise that resolves with the thread's records in no particular order.
+ */
+export const getConversationRecordsByRoot = async (rootId: string): Promise<ConversationRecord[]> => {
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_STORE, 'readonly');
+  const index = tx.objectStore(CONVERSATION_STORE).index('rootId');
+  return requestToPromise<ConversationRecord[]>(index.getAll(rootId));
+};
+
+/**
+ * Reads all conversation records, oldest first.
+ * @returns A Promise that resolves with the records sorted by ascending timestamp.
+ */
+export const getAllConversationRecords = async (): Promise<ConversationRecord[]> => {
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_STORE, 'readonly');
+  const index = tx.objectStore(CONVERSATION_STORE).index('timestamp');
+  return requestToPromise<ConversationRecord[]>(index.getAll());
+};
+
+/**
+ * Updates a record's last access time, reading and writing in one transaction
+ * so a concurrent save is never overwritten with a stale copy.
+ * @param id The SearchResult ID.
+ * @param lastAccessed The access time in milliseconds since epoch.
+ */
+export const touchConversationRecord = async (id: string, lastAccessed: number): Promise<void> => {
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_STORE, 'readwrite');
+  const store = tx.objectStore(CONVERSATION_STORE);
+  const record = await requestToPromise<ConversationRecord | undefined>(store.get(id));
+  if (record) store.put({ ...record, lastAccessed });
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes conversation records by ID in a single transaction.
+ * @param ids The IDs to remove.
+ */
+export const deleteConversationRecords = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_STORE, 'readwrite');
+  const store = tx.objectStore(CONVERSATION_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * Removes every record from a store.
+ * @param storeName Either `CONVERSATION_STORE` or `HISTORY_STORE`.
+ */
+export const clearStore = async (storeName: string): Promise<void> => {
+  const db = await openConversationDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { isSameOriginPath, parsePushPayload, threadUrl } from './notifications';
+
+describe('isSameOriginPath', () => {
+  it.each(['/', '/thread/root-1', '/search?q=a//b', '/a//b'])('accepts %s', url => {
+    expect(isSameOriginPath(url)).toBe(true);
+  });
+
+  it.each([
+    '//evil.example',
+    '/\\evil.example',
+    '/\t/evil.example',
+    'https://evil.example/thread/1',
+    'javascript:alert(1)',
+    'thread/1',
+    '',
+  ])('rejects %j', url => {
+    expect(isSameOriginPath(url)).toBe(false);
+  });
+});
+
+describe('parsePushPayload', () => {
+  it('reads a JSON notification', () => {
+    const notification = { title: 'Answer ready', body: 'Tides', url: threadUrl('root 1'), tag: 'root 1' };
+
+    expect(parsePushPayload(JSON.stringify(notification))).toEqual({ ...notification, url: '/thread/root%201' });
+  });
+
+  it('opens the home page for a notification that links to another origin', () => {
+    const payload = JSON.stringify({ title: 'Answer ready', body: 'Tides', url: '//evil.example' });
+
+    expect(parsePushPayload(payload)).toEqual({ title: 'Shodhan', body: payload, url: '/' });
+  });
+
+  it('shows plain text as the body', () => {
+    expect(parsePushPayload('Test push')).toEqual({ title: 'Shodhan', body: 'Test push', url: '/' });
+  });
+});
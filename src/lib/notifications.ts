@@ -0,0 +1,71 @@
+// src/lib/notifications.ts
+
+/**
+ * Answer notifications, shared by the page and the Service Worker. The worker shows them for
+ * `push` events, for the page's local push stand-in (`LOCAL_PUSH`) and for answered queued questions;
+ * clicking one focuses a tab and opens `url`.
+ */
+import { z } from 'zod';
+
+export interface AnswerNotification {
+  title: string;
+  body: string;
+  url: string; // Path of the thread to open, e.g. /thread/root-…
+  tag?: string; // Replaces an earlier notification with the same tag
+}
+
+// Placeholder origin for resolving paths; any origin would do
+const PATH_BASE = 'https://app.invalid';
+
+/**
+ * Checks that a URL is a path on the current origin. A leading `/` is not enough: browsers read
+ * `//host` and `/\host` as links to another host.
+ * @param url The URL to check.
+ * @returns Whether the URL resolves to the origin it is opened from.
+ */
+export const isSameOriginPath = (url: string): boolean => {
+  if (!url.startsWith('/')) return false;
+  try {
+    return new URL(url, PATH_BASE).origin === PATH_BASE;
+  } catch {
+    return false;
+  }
+};
+
+export const sameOriginPathSchema = z.string().refine(isSameOriginPath, 'Must be a path on this origin');
+
+// Only paths on this origin may be opened from a notification
+export const answerNotificationSchema = z.object({
+  title: z.string().min(1),
+  body: z.string(),
+  url: sameOriginPathSchema,
+  tag: z.string().optional(),
+});
+
+const DEFAULT_NOTIFICATION_TITLE = 'Shodhan';
+
+/**
+ * Builds the path of a cached thread.
+ * @param rootId The ID of the thread's root result.
+ * @returns The path that opens the thread.
+ */
+export const threadUrl = (rootId: string): string => `/thread/${encodeURIComponent(rootId)}`;
+
+/**
+ * Reads the payload of a push message. Payloads are JSON `AnswerNotification`s; anything else,
+ * such as the text of a test push from the browser's DevTools, is shown as the body of a notification
+ * that opens the home page.
+ * @param text The message text, if any.
+ * @returns The notification to show.
+ */
+export const parsePushPayload = (text: string | undefined): AnswerNotification => {
+  if (text) {
+    try {
+      const parsed = answerNotificationSchema.safeParse(JSON.parse(text));
+      if (parsed.success) return parsed.data as AnswerNotification;
+    } catch {
+      // Not JSON; shown as plain text below
+    }
+  }
+  return { title: DEFAULT_NOTIFICATION_TITLE, body: text || 'You have a new answer.', url: '/' };
+};
@@ -1,11 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
 import { logger } from '../utils/logger';
+import type { Database } from '../types/supabase';
 
 // Initialize Supabase client
 // Using direct values from project configuration
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_KEY;
-const supabase = createClient(supabaseUrl, supabaseKey);
+// Typed with the checked-in schema (supabase/migrations), so table queries are checked
+const supabase = createClient<Database>(supabaseUrl, supabaseKey);
 
 // Function to sign in anonymously
 export const signInAnonymously = async () => {
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parsePageRequest, parseWorkerMessage, ServiceWorkerProtocolError, SW_PROTOCOL_VERSION, toWire } from './swProtocol';
+
+const errorCode = (parse: () => unknown): string | undefined => {
+  try {
+    parse();
+  } catch (error) {
+    return error instanceof ServiceWorkerProtocolError ? error.code : 'not a protocol error';
+  }
+  return undefined;
+};
+
+describe('parsePageRequest', () => {
+  it('accepts a request stamped by toWire', () => {
+    const request = toWire({ type: 'GET_SYNC_STATUS' as const });
+
+    expect(parsePageRequest(request)).toEqual(request);
+  });
+
+  it('rejects a message from another protocol version with SW-426', () => {
+    const request = { ...toWire({ type: 'GET_SYNC_STATUS' as const }), version: SW_PROTOCOL_VERSION - 1 };
+
+    expect(errorCode(() => parsePageRequest(request))).toBe('SW-426');
+  });
+
+  it('rejects malformed, unknown and invalid messages with SW-400', () => {
+    expect(errorCode(() => parsePageRequest({ type: 'GET_SYNC_STATUS' }))).toBe('SW-400');
+    expect(errorCode(() => parsePageRequest(toWire({ type: 'NOT_A_REQUEST' })))).toBe('SW-400');
+    expect(errorCode(() => parsePageRequest(toWire({ type: 'QUEUE_QUERY' })))).toBe('SW-400');
+  });
+});
+
+describe('parseWorkerMessage', () => {
+  it('only accepts OPEN_THREAD for paths on this origin', () => {
+    expect(parseWorkerMessage(toWire({ type: 'OPEN_THREAD', url: '/thread/root-1' })).type).toBe('OPEN_THREAD');
+    expect(errorCode(() => parseWorkerMessage(toWire({ type: 'OPEN_THREAD', url: '//evil.example' })))).toBe('SW-400');
+  });
+});
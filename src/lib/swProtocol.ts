@@ -0,0 +1,304 @@
+// src/lib/swProtocol.ts
+
+/**
+ * Message protocol between the page and the Service Worker, imported by both sides.
+ *
+ * Every message on the wire carries the protocol `version` and a unique `id`. Requests that
+ * expect an answer transfer a `MessagePort`; the receiver answers on that port with a response
+ * carrying the request's `id`. Broadcast events are posted without a port.
+ * Each side validates what it receives, so a page and a worker built from different versions
+ * fail with a `ServiceWorkerProtocolError` instead of misreading each other's messages.
+ */
+import { z } from 'zod';
+import { AppError } from './appError';
+import type { SearchResult } from '../types/search';
+import type { QueuedQuery, SyncLogEntry, SyncQueueCounts } from './syncQueue';
+import { syncConfigUpdateSchema, type SyncConfig } from './syncConfig';
+import { answerNotificationSchema, sameOriginPathSchema, type AnswerNotification } from './notifications';
+
+// Bump when a message changes shape; both sides must agree on it
+export const SW_PROTOCOL_VERSION = 6;
+
+export const SW_REQUEST_TIMEOUT = 10 * 1000;
+
+// Activates a waiting worker. It carries no version because the waiting worker usually comes
+// from a newer build than the page, so its shape must never change.
+export const SKIP_WAITING_MESSAGE = { type: 'SKIP_WAITING' } as const;
+
+export class ServiceWorkerProtocolError extends AppError {
+  name = 'ServiceWorkerProtocolError';
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Results and log entries are produced by this app; checking their identifying fields is enough
+const searchResultSchema = z.custom<SearchResult>(
+  value => isRecord(value) && typeof value.id === 'string',
+  'Expected a search result'
+);
+const syncLogEntrySchema = z.custom<SyncLogEntry>(
+  value => isRecord(value) && typeof value.id === 'string' && typeof value.at === 'number',
+  'Expected a sync log entry'
+);
+const queuedQuerySchema = z.custom<QueuedQuery>(
+  value => isRecord(value) && typeof value.id === 'string' && typeof value.query === 'string',
+  'Expected a queued query'
+);
+const syncConfigSchema = z.custom<SyncConfig>(
+  value => isRecord(value) && typeof value.enabled === 'boolean' && typeof value.batchSize === 'number',
+  'Expected a sync configuration'
+);
+
+export type SyncStatus = SyncQueueCounts & { syncing: boolean };
+
+// A page's answer to PULL_UNSYNCED: every entry in its conversation cache
+export interface UnsyncedEntries {
+  entries: Array<{ value: SearchResult; expires: number }>;
+  userId: string;
+  fingerprintId: string;
+}
+
+// Requests the page sends to the worker
+export type PageRequest =
+  | { type: 'HELLO' }
+  | { type: 'SYNC_DATA'; webhookUrl: string; results: SearchResult[]; userId: string; fingerprintId: string }
+  | { type: 'PULL_SYNC' }
+  | { type: 'REPLAY_SYNC' }
+  | { type: 'RETRY_FAILED_SYNC' }
+  | { type: 'DISCARD_FAILED_SYNC' }
+  | { type: 'GET_SYNC_STATUS' }
+  | { type: 'GET_SYNC_LOG' }
+  | { type: 'GET_CONFIG' }
+  | { type: 'SET_CONFIG'; config: Partial<SyncConfig> }
+  | { type: 'QUEUE_QUERY'; query: string; parentId?: string; userId?: string; providerId?: string }
+  | { type: 'RUN_QUEUED_QUERIES' }
+  | { type: 'HAND_OFF' }
+  | { type: 'LOCAL_PUSH'; notification: AnswerNotification };
+
+// Requests the worker sends to a page
+export type WorkerRequest =
+  | { type: 'PULL_UNSYNCED' }
+  | { type: 'RUN_QUERY'; query: QueuedQuery };
+
+// Events the worker broadcasts to every page
+export type WorkerEvent =
+  | { type: 'SYNC_SUCCESS' }
+  | ({ type: 'SYNC_STATUS' } & SyncStatus)
+  | { type: 'SYNC_ATTEMPT'; entry: SyncLogEntry }
+  | { type: 'SYNC_CONFIG'; config: SyncConfig }
+  | { type: 'QUERY_ANSWERED'; id: string; query: string; parentId?: string; resultId: string }
+  | { type: 'QUERY_FAILED'; id: string; query: string; error: string }
+  | { type: 'OPEN_THREAD'; url: string };
+
+export type ProtocolRequest = PageRequest | WorkerRequest;
+
+// What each request resolves with
+export interface ResponseMap {
+  HELLO: { version: number };
+  SYNC_DATA: { queued: number };
+  PULL_SYNC: null;
+  REPLAY_SYNC: null;
+  RETRY_FAILED_SYNC: { retried: number };
+  DISCARD_FAILED_SYNC: { discarded: number };
+  GET_SYNC_STATUS: SyncStatus;
+  GET_SYNC_LOG: { entries: SyncLogEntry[] };
+  GET_CONFIG: { config: SyncConfig };
+  SET_CONFIG: { config: SyncConfig };
+  QUEUE_QUERY: { id: string };
+  RUN_QUEUED_QUERIES: null;
+  HAND_OFF: SyncStatus;
+  LOCAL_PUSH: null;
+  PULL_UNSYNCED: UnsyncedEntries;
+  RUN_QUERY: { resultId: string };
+}
+
+type MessageSchemas<T extends { type: string }> = Record<T['type'], z.ZodTypeAny>;
+
+// Body schemas per message type; the envelope fields are checked separately
+const pageRequestSchemas: MessageSchemas<PageRequest> = {
+  HELLO: z.object({}),
+  SYNC_DATA: z.object({
+    webhookUrl: z.string().url(),
+    results: z.array(searchResultSchema),
+    userId: z.string(),
+    fingerprintId: z.string(),
+  }),
+  PULL_SYNC: z.object({}),
+  REPLAY_SYNC: z.object({}),
+  RETRY_FAILED_SYNC: z.object({}),
+  DISCARD_FAILED_SYNC: z.object({}),
+  GET_SYNC_STATUS: z.object({}),
+  GET_SYNC_LOG: z.object({}),
+  GET_CONFIG: z.object({}),
+  SET_CONFIG: z.object({ config: syncConfigUpdateSchema }),
+  QUEUE_QUERY: z.object({
+    query: z.string().trim().min(1),
+    parentId: z.string().optional(),
+    userId: z.string().optional(),
+    providerId: z.string().optional(),
+  }),
+  RUN_QUEUED_QUERIES: z.object({}),
+  HAND_OFF: z.object({}),
+  LOCAL_PUSH: z.object({ notification: answerNotificationSchema }),
+};
+
+const workerMessageSchemas: MessageSchemas<WorkerRequest | WorkerEvent> = {
+  PULL_UNSYNCED: z.object({}),
+  RUN_QUERY: z.object({ query: queuedQuerySchema }),
+  SYNC_SUCCESS: z.object({}),
+  SYNC_STATUS: z.object({ pending: z.number(), failed: z.number(), syncing: z.boolean() }),
+  SYNC_ATTEMPT: z.object({ entry: syncLogEntrySchema }),
+  SYNC_CONFIG: z.object({ config: syncConfigSchema }),
+  QUERY_ANSWERED: z.object({ id: z.string(), query: z.string(), parentId: z.string().optional(), resultId: z.string() }),
+  QUERY_FAILED: z.object({ id: z.string(), query: z.string(), error: z.string() }),
+  OPEN_THREAD: z.object({ url: sameOriginPathSchema }),
+};
+
+const envelopeSchema = z.object({
+  version: z.number().int(),
+  id: z.string().min(1),
+  type: z.string(),
+});
+
+const responseSchema = z.object({
+  type: z.literal('RESPONSE'),
+  version: z.number().int(),
+  id: z.string(),
+  ok: z.boolean(),
+  result: z.unknown().optional(),
+  error: z.object({ code: z.string(), message: z.string() }).optional(),
+});
+
+export type Wire<T> = T & { version: number; id: string };
+
+// Anything a message can be posted to: a ServiceWorker from the page, a Client from the worker
+export interface MessageTarget {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+}
+
+/**
+ * Stamps a message with the protocol version and a fresh ID.
+ * @param message - The message.
+ * @returns The message as sent on the wire.
+ */
+export const toWire = <T extends { type: string }>(message: T): Wire<T> => ({
+  ...message,
+  version: SW_PROTOCOL_VERSION,
+  id: crypto.randomUUID(),
+});
+
+/**
+ * Checks the envelope of a received message, then validates its body against the schema for its type.
+ * @throws ServiceWorkerProtocolError - SW-400 when the message is malformed or unknown, SW-426 on a version mismatch.
+ */
+const parseWire = <T extends { type: string }>(data: unknown, schemas: MessageSchemas<T>): Wire<T> => {
+  const envelope = envelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new ServiceWorkerProtocolError('SW-400', 'Malformed Service Worker message', { issues: envelope.error.issues });
+  }
+  const { version, type } = envelope.data;
+  if (version !== SW_PROTOCOL_VERSION) {
+    throw new ServiceWorkerProtocolError('SW-426', 'Service Worker protocol version mismatch', {
+      expected: SW_PROTOCOL_VERSION,
+      received: version,
+      type,
+    });
+  }
+  if (!Object.prototype.hasOwnProperty.call(schemas, type)) {
+    throw new ServiceWorkerProtocolError('SW-400', `Unknown message type ${type}`, { type });
+  }
+  const body = (schemas[type as T['type']] as z.ZodTypeAny).safeParse(data);
+  if (!body.success) {
+    throw new ServiceWorkerProtocolError('SW-400', `Invalid ${type} message`, { issues: body.error.issues });
+  }
+  return data as Wire<T>;
+};
+
+/** Recognizes `SKIP_WAITING_MESSAGE` from a page of any build. */
+export const isSkipWaitingMessage = (data: unknown): boolean =>
+  isRecord(data) && data.type === SKIP_WAITING_MESSAGE.type;
+
+/** Validates a request received by the worker. */
+export const parsePageRequest = (data: unknown): Wire<PageRequest> => parseWire(data, pageRequestSchemas);
+
+/** Validates a request or event received by the page. */
+export const parseWorkerMessage = (data: unknown): Wire<WorkerRequest | WorkerEvent> =>
+  parseWire(data, workerMessageSchemas);
+
+/**
+ * Answers a request on the port it transferred.
+ * @param port - The request's port.
+ * @param id - The request's ID.
+ * @param result - The response payload.
+ */
+export const respond = (port: MessagePort, id: string, result: unknown) => {
+  port.postMessage({ type: 'RESPONSE', version: SW_PROTOCOL_VERSION, id, ok: true, result });
+};
+
+/**
+ * Answers a request with the error it failed with.
+ * @param port - The request's port.
+ * @param id - The request's ID.
+ * @param error - The error.
+ */
+export const respondWithError = (port: MessagePort, id: string, error: unknown) => {
+  port.postMessage({
+    type: 'RESPONSE',
+    version: SW_PROTOCOL_VERSION,
+    id,
+    ok: false,
+    error: {
+      code: error instanceof ServiceWorkerProtocolError ? error.code : 'SW-500',
+      message: error instanceof Error ? error.message : String(error),
+    },
+  });
+};
+
+/**
+ * Sends a request over a new MessageChannel and waits for the response with the same ID.
+ * @param target - The worker or page to ask.
+ * @param message - The request.
+ * @param timeout - How long to wait for the response.
+ * @returns The response payload.
+ * @throws ServiceWorkerProtocolError - On a timeout (SW-504), an invalid or mismatched response, or an error response.
+ */
+export const sendRequest = <T extends ProtocolRequest>(
+  target: MessageTarget,
+  message: T,
+  timeout = SW_REQUEST_TIMEOUT
+): Promise<ResponseMap[T['type']]> => {
+  const wire = toWire(message);
+  const channel = new MessageChannel();
+
+  return new Promise<ResponseMap[T['type']]>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      channel.port1.close();
+      reject(new ServiceWorkerProtocolError('SW-504', `${message.type} request timed out`, { timeout }));
+    }, timeout);
+
+    channel.port1.onmessage = (event: MessageEvent) => {
+      clearTimeout(timeoutId);
+      channel.port1.close();
+      const response = responseSchema.safeParse(event.data);
+      if (!response.success) {
+        reject(new ServiceWorkerProtocolError('SW-400', `Invalid response to ${message.type}`, { issues: response.error.issues }));
+      } else if (response.data.version !== SW_PROTOCOL_VERSION) {
+        reject(new ServiceWorkerProtocolError('SW-426', 'Service Worker protocol version mismatch', {
+          expected: SW_PROTOCOL_VERSION,
+          received: response.data.version,
+          type: message.type,
+        }));
+      } else if (response.data.id !== wire.id) {
+        reject(new ServiceWorkerProtocolError('SW-400', `Response to ${message.type} has the wrong ID`, { expected: wire.id, received: response.data.id }));
+      } else if (!response.data.ok) {
+        const { code = 'SW-500', message: reason = `${message.type} request failed` } = response.data.error || {};
+        reject(new ServiceWorkerProtocolError(code, reason, { type: message.type }));
+      } else {
+        resolve(response.data.result as ResponseMap[T['type']]);
+      }
+    };
+
+    target.postMessage(wire, [channel.port2]);
+  });
+};
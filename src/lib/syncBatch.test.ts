@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildSyncEnvelopes, hashSyncEntry, SYNC_SCHEMA_VERSION, type OutboxEntry, type SyncEntry } from './syncBatch';
+
+const entry = (id: string): SyncEntry => ({
+  id,
+  title: `Answer ${id}`,
+  content: 'Content',
+  confidence: 1,
+  category: 'General',
+  timestamp: '2026-10-19T00:00:00.000Z',
+});
+
+const outboxEntry = (hash: string, addedAt: number, overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  hash,
+  entry: entry(hash),
+  webhookUrl: 'https://hooks.example/a',
+  userId: 'user-1',
+  fingerprintId: 'fp-1',
+  addedAt,
+  ...overrides,
+});
+
+describe('buildSyncEnvelopes', () => {
+  it('splits entries into batches of at most batchSize, oldest first', () => {
+    const envelopes = buildSyncEnvelopes([outboxEntry('c', 3), outboxEntry('a', 1), outboxEntry('b', 2)], 2);
+
+    expect(envelopes.map(({ envelope }) => envelope.itemHashes)).toEqual([['a', 'b'], ['c']]);
+    expect(envelopes[0].envelope).toMatchObject({
+      schemaVersion: SYNC_SCHEMA_VERSION,
+      userId: 'user-1',
+      fingerprintId: 'fp-1',
+      items: [{ hash: 'a', result: entry('a') }, { hash: 'b', result: entry('b') }],
+    });
+  });
+
+  it('never mixes webhooks or identities in one envelope', () => {
+    const envelopes = buildSyncEnvelopes([
+      outboxEntry('a', 1),
+      outboxEntry('b', 2, { webhookUrl: 'https://hooks.example/b' }),
+      outboxEntry('c', 3, { userId: 'user-2' }),
+      outboxEntry('d', 4),
+    ], 20);
+
+    expect(envelopes.map(({ webhookUrl, envelope }) => [webhookUrl, envelope.userId, envelope.itemHashes])).toEqual([
+      ['https://hooks.example/a', 'user-1', ['a', 'd']],
+      ['https://hooks.example/b', 'user-1', ['b']],
+      ['https://hooks.example/a', 'user-2', ['c']],
+    ]);
+  });
+});
+
+describe('hashSyncEntry', () => {
+  it('ignores the timestamp and property order', async () => {
+    const { title, ...rest } = entry('a');
+    const reordered = { ...rest, timestamp: '2026-10-20T00:00:00.000Z', title } as SyncEntry;
+
+    expect(await hashSyncEntry(reordered)).toBe(await hashSyncEntry(entry('a')));
+    expect(await hashSyncEntry({ ...entry('a'), content: 'Changed' })).not.toBe(await hashSyncEntry(entry('a')));
+  });
+});
@@ -0,0 +1,111 @@
+// src/lib/syncBatch.ts
+
+/**
+ * Builds the versioned envelopes the Service Worker sends to the sync webhook.
+ * Entries are identified by a SHA-512 content hash, so the worker can drop entries it has
+ * already queued or delivered, and the webhook can ignore items and batches it has seen.
+ */
+import { sha512 } from '../utils/hashUtils';
+import type { SearchResult } from '../types/search';
+
+export const SYNC_SCHEMA_VERSION = 1;
+
+// Defaults for coalescing entries: a batch is sent when it is full or its oldest entry has waited the window
+export const DEFAULT_SYNC_BATCH_SIZE = Number(import.meta.env.VITE_SYNC_BATCH_SIZE) || 20;
+export const DEFAULT_SYNC_BATCH_WINDOW = Number(import.meta.env.VITE_SYNC_BATCH_WINDOW) || 10 * 1000;
+
+// A cache entry as it is synced: replies are linked through `parentId`, not nested
+export type SyncEntry = Omit<SearchResult, 'replies'>;
+
+// An entry waiting to be batched, keyed by its content hash
+export interface OutboxEntry {
+  hash: string;
+  entry: SyncEntry;
+  webhookUrl: string;
+  userId: string;
+  fingerprintId: string;
+  addedAt: number;
+}
+
+export interface SyncEnvelope {
+  schemaVersion: typeof SYNC_SCHEMA_VERSION;
+  batchId: string;
+  createdAt: string;
+  userId: string;
+  fingerprintId: string;
+  itemHashes: string[];
+  items: Array<{ hash: string; result: SyncEntry }>;
+}
+
+/**
+ * Strips the fields that do not describe an entry's content.
+ * @param result The cached result.
+ * @returns The entry to sync.
+ */
+export const toSyncEntry = (result: SearchResult): SyncEntry => {
+  const { replies, ...entry } = result;
+  return entry;
+};
+
+/**
+ * Hashes an entry's content. The timestamp is left out so re-sending the same answer
+ * later produces the same hash; keys are sorted so property order does not matter.
+ * @param entry The entry to hash.
+ * @returns A Promise that resolves with the hex SHA-512 hash.
+ */
+export const hashSyncEntry = (entry: SyncEntry): Promise<string> => {
+  const { timestamp, ...content } = entry;
+  return sha512(stableStringify(content));
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Groups outbox entries by webhook and identity, oldest first, and splits each group into envelopes.
+ * @param entries The entries to send.
+ * @param batchSize The maximum number of items per envelope.
+ * @returns The envelopes with the webhook each goes to.
+ */
+export const buildSyncEnvelopes = (
+  entries: OutboxEntry[],
+  batchSize: number
+): Array<{ webhookUrl: string; envelope: SyncEnvelope }> => {
+  const groups = new Map<string, OutboxEntry[]>();
+  [...entries]
+    .sort((a, b) => a.addedAt - b.addedAt)
+    .forEach(entry => {
+      const key = JSON.stringify([entry.webhookUrl, entry.userId, entry.fingerprintId]);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+
+  const envelopes: Array<{ webhookUrl: string; envelope: SyncEnvelope }> = [];
+  groups.forEach(group => {
+    for (let i = 0; i < group.length; i += batchSize) {
+      const batch = group.slice(i, i + batchSize);
+      const { webhookUrl, userId, fingerprintId } = batch[0];
+      envelopes.push({
+        webhookUrl,
+        envelope: {
+          schemaVersion: SYNC_SCHEMA_VERSION,
+          batchId: crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+          userId,
+          fingerprintId,
+          itemHashes: batch.map(item => item.hash),
+          items: batch.map(item => ({ hash: item.hash, result: item.entry })),
+        },
+      });
+    }
+  });
+  return envelopes;
+};
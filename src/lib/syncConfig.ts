@@ -0,0 +1,62 @@
+// src/lib/syncConfig.ts
+
+/**
+ * Runtime configuration of the Service Worker's cache sync and notifications. The worker persists it
+ * in the `shodhan-sync` database and falls back to the build-time defaults below; pages change it
+ * with SET_CONFIG and read it with GET_CONFIG.
+ */
+import { z } from 'zod';
+import { DEFAULT_SYNC_BATCH_SIZE } from './syncBatch';
+import { LOG_LEVELS, type LogLevel } from '../utils/logger';
+
+export const MAX_SYNC_BATCH_SIZE = 100;
+
+export interface SyncConfig {
+  webhookUrl: string | null; // Sync is off while no webhook is configured
+  batchSize: number;
+  enabled: boolean;
+  logLevel: LogLevel; // Minimum level the worker logs
+  notifications: boolean; // Opted in to answer notifications; the browser permission is asked separately
+}
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  webhookUrl: import.meta.env.VITE_CACHE_WEBHOOK_URL || null,
+  batchSize: DEFAULT_SYNC_BATCH_SIZE,
+  enabled: true,
+  logLevel: import.meta.env.DEV ? 'debug' : 'silent',
+  notifications: false,
+};
+
+// Webhooks receive user content, so only HTTPS is accepted outside local development
+const isWebhookUrl = (url: string) => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' || (protocol === 'http:' && ['localhost', '127.0.0.1'].includes(hostname));
+  } catch {
+    return false;
+  }
+};
+
+// Validates a SET_CONFIG update; omitted fields keep their current value
+export const syncConfigUpdateSchema = z.object({
+  webhookUrl: z.string().refine(isWebhookUrl, 'Webhook URL must be an https:// URL').nullable().optional(),
+  batchSize: z.number().int().min(1).max(MAX_SYNC_BATCH_SIZE).optional(),
+  enabled: z.boolean().optional(),
+  logLevel: z.enum(LOG_LEVELS as [LogLevel, ...LogLevel[]]).optional(),
+  notifications: z.boolean().optional(),
+}).strict();
+
+/**
+ * Checks that a URL points at the configured webhook's origin.
+ * @param url The URL to check.
+ * @param config The active configuration.
+ * @returns Whether the URL may receive sync payloads.
+ */
+export const isConfiguredWebhookOrigin = (url: string, config: SyncConfig): boolean => {
+  if (!config.webhookUrl) return false;
+  try {
+    return new URL(url).origin === new URL(config.webhookUrl).origin;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,424 @@
+// src/lib/syncQueue.ts
+
+/**
+ * Durable queue of webhook sync payloads, stored in IndexedDB so that payloads which
+ * could not be delivered survive a closed tab or a restarted Service Worker.
+ * Like `conversationDb.ts` it has no dependency on `window`; the Service Worker owns the queue.
+ *
+ * Cache entries first wait in the `outbox`, keyed by content hash, until they are coalesced into
+ * a batch. Each batch becomes a queue item, which moves from `pending` (waiting for its next attempt)
+ * to `failed` once it exhausts its attempts or the webhook rejects it permanently. Delivered items
+ * are deleted, and the entries they carried get a synced marker so unchanged entries are not sent again.
+ * Every delivery attempt is recorded in a capped `log` for the sync log panel, and the runtime
+ * sync configuration is kept in `config`.
+ * Questions asked while offline wait in `queries` until a page can answer them.
+ */
+import { requestToPromise, transactionDone } from './conversationDb';
+import type { OutboxEntry } from './syncBatch';
+import type { SyncConfig } from './syncConfig';
+
+const SYNC_DB_NAME = 'shodhan-sync';
+const SYNC_DB_VERSION = 6;
+const QUEUE_STORE = 'queue';
+const SYNCED_STORE = 'synced';
+const OUTBOX_STORE = 'outbox';
+const LOG_STORE = 'log';
+const CONFIG_STORE = 'config';
+const SYNC_CONFIG_KEY = 'sync';
+const QUERY_STORE = 'queries';
+
+const MAX_SYNC_LOG_ENTRIES = 50;
+
+// Tag for Periodic Background Sync and minimum time between pulls of unsynced entries
+export const PULL_SYNC_TAG = 'pull-cache';
+export const PULL_SYNC_INTERVAL = Number(import.meta.env.VITE_CACHE_SYNC_INTERVAL) || 5 * 60 * 1000;
+
+// Tag for the Background Sync that runs queued questions once the connection returns
+export const QUERY_SYNC_TAG = 'run-queries';
+
+export type SyncItemStatus = 'pending' | 'failed';
+
+// Identifies the version of a cache entry carried by a payload
+export interface SyncEntryRef {
+  id: string;
+  hash: string; // SHA-512 of the entry's content
+}
+
+interface SyncedMarker extends SyncEntryRef {
+  syncedAt: number;
+}
+
+export interface SyncQueueItem {
+  id: string;
+  webhookUrl: string;
+  body: unknown; // JSON payload POSTed to the webhook
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number; // Earliest time of the next delivery attempt (ms since epoch)
+  status: SyncItemStatus;
+  lastError?: string;
+  entries?: SyncEntryRef[]; // Cache entries marked synced once the payload is delivered
+}
+
+// Counts of cache entries, not batches: `pending` includes entries still waiting in the outbox
+export interface SyncQueueCounts {
+  pending: number;
+  failed: number;
+}
+
+export type SyncAttemptOutcome = 'delivered' | 'retrying' | 'failed';
+
+// One delivery attempt of a queued batch
+export interface SyncLogEntry {
+  id: string;
+  at: number;
+  itemId: string;
+  batchId?: string;
+  entries: number;
+  bytes: number; // Size of the POSTed body
+  attempt: number;
+  outcome: SyncAttemptOutcome;
+  status?: number; // HTTP status, absent on network errors
+  error?: string;
+}
+
+// A question asked while offline, answered by a page once the connection returns
+export interface QueuedQuery {
+  id: string;
+  query: string;
+  parentId?: string; // Root of the thread a follow-up belongs to
+  userId?: string;
+  providerId?: string;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+let syncDbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the sync queue database.
+ * @returns A Promise that resolves with the open database.
+ */
+const openSyncDb = (): Promise<IDBDatabase> => {
+  if (syncDbPromise) return syncDbPromise;
+
+  syncDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+
+    const request = indexedDB.open(SYNC_DB_NAME, SYNC_DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        queue.createIndex('status', 'status');
+        queue.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(SYNCED_STORE)) {
+        db.createObjectStore(SYNCED_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'hash' });
+      }
+      if (!db.objectStoreNames.contains(LOG_STORE)) {
+        db.createObjectStore(LOG_STORE, { keyPath: 'id' }).createIndex('at', 'at');
+      }
+      if (!db.objectStoreNames.contains(CONFIG_STORE)) {
+        db.createObjectStore(CONFIG_STORE);
+      }
+      if (!db.objectStoreNames.contains(QUERY_STORE)) {
+        db.createObjectStore(QUERY_STORE, { keyPath: 'id' }).createIndex('queuedAt', 'queuedAt');
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        syncDbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      syncDbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return syncDbPromise;
+};
+
+/**
+ * Adds a payload to the queue, due immediately, and removes the entries it carries from the outbox
+ * in the same transaction.
+ * @param webhookUrl The webhook the payload is delivered to.
+ * @param body The JSON payload.
+ * @param entries The cache entries the payload carries.
+ * @returns A Promise that resolves with the stored item.
+ */
+export const enqueueSyncItem = async (
+  webhookUrl: string,
+  body: unknown,
+  entries: SyncEntryRef[] = []
+): Promise<SyncQueueItem> => {
+  const now = Date.now();
+  const item: SyncQueueItem = {
+    id: crypto.randomUUID(),
+    webhookUrl,
+    body,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    status: 'pending',
+    entries,
+  };
+  const db = await openSyncDb();
+  const tx = db.transaction([QUEUE_STORE, OUTBOX_STORE], 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(item);
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  entries.forEach(entry => outbox.delete(entry.hash));
+  await transactionDone(tx);
+  return item;
+};
+
+/**
+ * Reads queued items with the given status, oldest first.
+ * @param status The status to filter by.
+ * @returns A Promise that resolves with the items.
+ */
+export const getSyncItems = async (status: SyncItemStatus): Promise<SyncQueueItem[]> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUEUE_STORE, 'readonly');
+  const items = await requestToPromise<SyncQueueItem[]>(tx.objectStore(QUEUE_STORE).index('status').getAll(status));
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Writes back an item after a delivery attempt.
+ * @param item The updated item.
+ */
+export const updateSyncItem = async (item: SyncQueueItem): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(item);
+  await transactionDone(tx);
+};
+
+/**
+ * Removes a delivered item from the queue.
+ * @param id The item ID.
+ */
+export const deleteSyncItem = async (id: string): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Replaces queued items with outbox entries in one transaction, so their entries are batched again
+ * (e.g. for a new webhook) and never lost or queued twice.
+ * @param ids The IDs of the items to remove from the queue.
+ * @param entries The entries to put in the outbox instead.
+ */
+export const requeueSyncItems = async (ids: string[], entries: OutboxEntry[]): Promise<void> => {
+  if (ids.length === 0 && entries.length === 0) return;
+  const db = await openSyncDb();
+  const tx = db.transaction([QUEUE_STORE, OUTBOX_STORE], 'readwrite');
+  const queue = tx.objectStore(QUEUE_STORE);
+  ids.forEach(id => queue.delete(id));
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  entries.forEach(entry => outbox.put(entry));
+  await transactionDone(tx);
+};
+
+/**
+ * Moves every failed item back to pending with a fresh attempt budget, due immediately.
+ * @returns A Promise that resolves with the number of items moved.
+ */
+export const retryFailedSyncItems = async (): Promise<number> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+  const failed = await requestToPromise<SyncQueueItem[]>(store.index('status').getAll('failed'));
+  const now = Date.now();
+  failed.forEach(item => store.put({ ...item, status: 'pending', attempts: 0, nextAttemptAt: now }));
+  await transactionDone(tx);
+  return failed.length;
+};
+
+/**
+ * Drops every failed item. Their entries are no longer skipped, so they are synced again if the page still has them.
+ * @returns A Promise that resolves with the number of items dropped.
+ */
+export const deleteFailedSyncItems = async (): Promise<number> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+  const keys = await requestToPromise<IDBValidKey[]>(store.index('status').getAllKeys('failed'));
+  keys.forEach(key => store.delete(key));
+  await transactionDone(tx);
+  return keys.length;
+};
+
+/**
+ * Counts the cache entries waiting to be synced and those in failed batches.
+ * @returns A Promise that resolves with the counts.
+ */
+export const getSyncQueueCounts = async (): Promise<SyncQueueCounts> => {
+  const db = await openSyncDb();
+  const tx = db.transaction([QUEUE_STORE, OUTBOX_STORE], 'readonly');
+  const [items, outbox] = await Promise.all([
+    requestToPromise<SyncQueueItem[]>(tx.objectStore(QUEUE_STORE).getAll()),
+    requestToPromise<number>(tx.objectStore(OUTBOX_STORE).count()),
+  ]);
+  // Items queued before batching carry no entry list and count as one
+  const countEntries = (status: SyncItemStatus) =>
+    items.filter(item => item.status === status).reduce((sum, item) => sum + (item.entries?.length || 1), 0);
+  return { pending: countEntries('pending') + outbox, failed: countEntries('failed') };
+};
+
+/**
+ * Records a delivery attempt, keeping only the most recent `MAX_SYNC_LOG_ENTRIES`.
+ * @param entry The attempt to record.
+ */
+export const addSyncLogEntry = async (entry: SyncLogEntry): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(LOG_STORE, 'readwrite');
+  const store = tx.objectStore(LOG_STORE);
+  store.put(entry);
+  const keys = await requestToPromise<IDBValidKey[]>(store.index('at').getAllKeys());
+  keys.slice(0, Math.max(0, keys.length - MAX_SYNC_LOG_ENTRIES)).forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
+
+/**
+ * Reads the recorded delivery attempts.
+ * @returns A Promise that resolves with the attempts, newest first.
+ */
+export const getSyncLog = async (): Promise<SyncLogEntry[]> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(LOG_STORE, 'readonly');
+  const entries = await requestToPromise<SyncLogEntry[]>(tx.objectStore(LOG_STORE).index('at').getAll());
+  return entries.reverse();
+};
+
+/**
+ * Records that these versions of cache entries reached the webhook.
+ * @param entries The delivered entries.
+ */
+export const markEntriesSynced = async (entries: SyncEntryRef[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openSyncDb();
+  const tx = db.transaction(SYNCED_STORE, 'readwrite');
+  const store = tx.objectStore(SYNCED_STORE);
+  const syncedAt = Date.now();
+  entries.forEach(entry => store.put({ ...entry, syncedAt } as SyncedMarker));
+  await transactionDone(tx);
+};
+
+/**
+ * Reads the synced markers.
+ * @returns A Promise that resolves with the hash of each entry's last synced version, keyed by entry ID.
+ */
+export const getSyncedHashes = async (): Promise<Map<string, string>> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(SYNCED_STORE, 'readonly');
+  const markers = await requestToPromise<SyncedMarker[]>(tx.objectStore(SYNCED_STORE).getAll());
+  return new Map(markers.map(marker => [marker.id, marker.hash]));
+};
+
+/**
+ * Drops markers of entries that no longer exist in the page's cache, so markers do not outlive their entries.
+ * @param liveIds The IDs of the entries still cached.
+ */
+export const pruneSyncedMarkers = async (liveIds: Set<string>): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(SYNCED_STORE, 'readwrite');
+  const store = tx.objectStore(SYNCED_STORE);
+  const ids = await requestToPromise<IDBValidKey[]>(store.getAllKeys());
+  ids.filter(id => !liveIds.has(String(id))).forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * Adds entries to the outbox. An entry whose hash is already there replaces it, so the same content is batched once.
+ * @param entries The entries to add.
+ */
+export const addOutboxEntries = async (entries: OutboxEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openSyncDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+};
+
+/**
+ * Reads every entry waiting in the outbox.
+ * @returns A Promise that resolves with the entries, oldest first.
+ */
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readonly');
+  const entries = await requestToPromise<OutboxEntry[]>(tx.objectStore(OUTBOX_STORE).getAll());
+  return entries.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+/**
+ * Reads the persisted sync configuration.
+ * @returns A Promise that resolves with the stored configuration, or undefined when none was saved.
+ */
+export const getStoredSyncConfig = async (): Promise<Partial<SyncConfig> | undefined> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(CONFIG_STORE, 'readonly');
+  return requestToPromise<Partial<SyncConfig> | undefined>(tx.objectStore(CONFIG_STORE).get(SYNC_CONFIG_KEY));
+};
+
+/**
+ * Persists the sync configuration.
+ * @param config The configuration to store.
+ */
+export const saveSyncConfig = async (config: SyncConfig): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(CONFIG_STORE, 'readwrite');
+  tx.objectStore(CONFIG_STORE).put(config, SYNC_CONFIG_KEY);
+  await transactionDone(tx);
+};
+
+/**
+ * Adds or updates a queued question.
+ * @param query The question to store.
+ */
+export const putQueuedQuery = async (query: QueuedQuery): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUERY_STORE, 'readwrite');
+  tx.objectStore(QUERY_STORE).put(query);
+  await transactionDone(tx);
+};
+
+/**
+ * Reads the queued questions.
+ * @returns A Promise that resolves with the questions, oldest first.
+ */
+export const getQueuedQueries = async (): Promise<QueuedQuery[]> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUERY_STORE, 'readonly');
+  return requestToPromise<QueuedQuery[]>(tx.objectStore(QUERY_STORE).index('queuedAt').getAll());
+};
+
+/**
+ * Removes an answered or abandoned question from the queue.
+ * @param id The question's ID.
+ */
+export const deleteQueuedQuery = async (id: string): Promise<void> => {
+  const db = await openSyncDb();
+  const tx = db.transaction(QUERY_STORE, 'readwrite');
+  tx.objectStore(QUERY_STORE).delete(id);
+  await transactionDone(tx);
+};
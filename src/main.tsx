@@ -4,6 +4,7 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import './utils/serviceWorkerClient'
+import { PULL_SYNC_TAG, PULL_SYNC_INTERVAL } from './lib/syncQueue';
 
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
@@ -17,6 +18,12 @@ if ('serviceWorker' in navigator) {
           logger.error('Background sync registration failed:', err);
         });
       }
+      // Periodic pulls of unsynced cache entries, where the browser allows them (installed PWAs in Chromium)
+      if (registration.periodicSync) {
+        registration.periodicSync.register(PULL_SYNC_TAG, { minInterval: PULL_SYNC_INTERVAL }).catch(err => {
+          logger.log('Periodic background sync unavailable:', err);
+        });
+      }
     }).catch(error => {
       logger.error('Service Worker registration failed:', error);
     });
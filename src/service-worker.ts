@@ -1,99 +1,714 @@
 import { precacheAndRoute } from 'workbox-precaching';
-import { registerRoute } from 'workbox-routing';
-import { NetworkOnly } from 'workbox-strategies';
-import { BackgroundSyncPlugin } from 'workbox-background-sync';
-import { logger } from './utils/logger';
+import { logger, setLogLevel } from './utils/logger';
+import {
+  enqueueSyncItem,
+  getSyncItems,
+  updateSyncItem,
+  deleteSyncItem,
+  retryFailedSyncItems,
+  requeueSyncItems,
+  deleteFailedSyncItems,
+  getSyncQueueCounts,
+  addSyncLogEntry,
+  getSyncLog,
+  markEntriesSynced,
+  getSyncedHashes,
+  pruneSyncedMarkers,
+  addOutboxEntries,
+  getOutboxEntries,
+  getStoredSyncConfig,
+  saveSyncConfig,
+  putQueuedQuery,
+  getQueuedQueries,
+  deleteQueuedQuery,
+  PULL_SYNC_TAG,
+  PULL_SYNC_INTERVAL,
+  QUERY_SYNC_TAG,
+  type QueuedQuery,
+  type SyncQueueItem,
+  type SyncLogEntry,
+} from './lib/syncQueue';
+import {
+  buildSyncEnvelopes,
+  hashSyncEntry,
+  toSyncEntry,
+  DEFAULT_SYNC_BATCH_WINDOW,
+  type OutboxEntry,
+  type SyncEnvelope,
+} from './lib/syncBatch';
+import { DEFAULT_SYNC_CONFIG, isConfiguredWebhookOrigin, type SyncConfig } from './lib/syncConfig';
+import { isSameOriginPath, parsePushPayload, threadUrl, type AnswerNotification } from './lib/notifications';
+import {
+  parsePageRequest,
+  respond,
+  respondWithError,
+  sendRequest,
+  toWire,
+  isSkipWaitingMessage,
+  ServiceWorkerProtocolError,
+  SW_PROTOCOL_VERSION,
+  type PageRequest,
+  type ResponseMap,
+  type SyncStatus,
+  type UnsyncedEntries,
+  type WorkerEvent,
+} from './lib/swProtocol';
 import type { SearchResult } from './types/search';
 
 declare const self: ServiceWorkerGlobalScope;
 
-const cacheSyncQueue = new BackgroundSyncPlugin('sync-cache');
+const SYNC_TAG = 'sync-cache';
+const MAX_SYNC_ATTEMPTS = 6;
+const INITIAL_RETRY_DELAY = 5000; // Doubled after every failed attempt, up to MAX_RETRY_DELAY
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_QUERY_ATTEMPTS = 3;
+const QUERY_TIMEOUT = 3 * 60 * 1000; // Answers stream for a while; the page's own idle timeout ends stalled ones
+const HAND_OFF_TIMEOUT = 30 * 1000; // Longer than a page takes to activate the update and reload
 
-interface SyncPayload {
+interface SyncIdentity {
   webhookUrl: string;
-  payload: SearchResult[];
+  userId: string;
+  fingerprintId: string;
 }
 
-const postMessageToClients = (message: object) => {
+const postMessageToClients = (message: WorkerEvent) => {
   self.clients.matchAll().then(clients => {
     clients.forEach(client => {
-      client.postMessage(message, []);
+      client.postMessage(toWire(message), []);
     });
   });
 };
 
-const handleSync = async (data: SyncPayload) => {
-  const { webhookUrl, payload } = data;
+let activeConfig: Promise<SyncConfig> | null = null;
 
-  if (!webhookUrl || !payload) {
-    logger.error('SW: Invalid sync data', data);
-    return;
+/**
+ * Reads the sync configuration once per worker lifetime: the stored settings over the build-time defaults.
+ * A configuration that cannot be read falls back to the defaults rather than stopping sync.
+ */
+const getConfig = (): Promise<SyncConfig> => {
+  if (!activeConfig) {
+    activeConfig = getStoredSyncConfig()
+      .then(stored => ({ ...DEFAULT_SYNC_CONFIG, ...stored }))
+      .catch(error => {
+        logger.error('SW: Failed to read sync configuration; using defaults.', error);
+        return DEFAULT_SYNC_CONFIG;
+      })
+      .then(config => {
+        setLogLevel(config.logLevel);
+        return config;
+      });
   }
+  return activeConfig;
+};
+
+/**
+ * Merges a validated update into the configuration, persists it and reports it to open pages.
+ * @returns The configuration now in effect.
+ */
+const updateConfig = async (update: Partial<SyncConfig>): Promise<SyncConfig> => {
+  const config: SyncConfig = { ...(await getConfig()), ...update };
+  await saveSyncConfig(config);
+  activeConfig = Promise.resolve(config);
+  setLogLevel(config.logLevel);
+  logger.log('SW: Sync configuration updated:', config);
+  postMessageToClients({ type: 'SYNC_CONFIG', config });
+  return config;
+};
 
+const isSyncActive = (config: SyncConfig) => config.enabled && config.webhookUrl !== null;
+
+const broadcastSyncStatus = async (syncing = false) => {
   try {
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
+    const counts = await getSyncQueueCounts();
+    postMessageToClients({ type: 'SYNC_STATUS', ...counts, syncing });
+  } catch (error) {
+    logger.error('SW: Failed to read sync queue status.', error);
+  }
+};
+
+const retryDelay = (attempts: number) =>
+  Math.min(INITIAL_RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+
+// Client errors other than rate limiting will not succeed on replay
+const isPermanentFailure = (status: number) => status >= 400 && status < 500 && status !== 429;
+
+/**
+ * Records a delivery attempt in the sync log and reports it to open pages.
+ * A log that cannot be written must not affect delivery, so errors are only logged.
+ */
+const recordSyncAttempt = async (entry: SyncLogEntry) => {
+  try {
+    await addSyncLogEntry(entry);
+  } catch (error) {
+    logger.error('SW: Failed to record sync attempt.', error);
+  }
+  postMessageToClients({ type: 'SYNC_ATTEMPT', entry });
+};
 
-    if (response.ok) {
-      logger.log('SW: Successfully sent data to webhook:', { webhookUrl, payload });
-      postMessageToClients({ type: 'SYNC_SUCCESS' });
-    } else {
-      logger.error('SW: Failed to send data to webhook.', response.statusText);
+/**
+ * Tries to deliver one queued payload, then deletes it, schedules its next attempt or marks it failed.
+ * @returns Whether the payload was delivered.
+ */
+const deliverSyncItem = async (item: SyncQueueItem, config: SyncConfig): Promise<boolean> => {
+  const attempts = item.attempts + 1;
+  const body = JSON.stringify(item.body);
+  const attempt: Omit<SyncLogEntry, 'outcome'> = {
+    id: crypto.randomUUID(),
+    at: Date.now(),
+    itemId: item.id,
+    batchId: (item.body as { batchId?: string } | null)?.batchId,
+    entries: item.entries?.length || 1,
+    bytes: new Blob([body]).size,
+    attempt: attempts,
+  };
+  let error: string;
+  let status: number | undefined;
+  let permanent = false;
+
+  // Payloads for a webhook that has since been changed are re-batched by `requeueForConfiguredWebhook`;
+  // only those without entries to re-batch get here, and they are never sent elsewhere
+  if (!isConfiguredWebhookOrigin(item.webhookUrl, config)) {
+    error = 'Webhook is no longer configured';
+    permanent = true;
+  } else {
+    try {
+      const response = await fetch(item.webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body,
+      });
+
+      if (response.ok) {
+        await deleteSyncItem(item.id);
+        await markEntriesSynced(item.entries || []);
+        logger.log('SW: Successfully sent data to webhook:', { webhookUrl: item.webhookUrl, attempts });
+        await recordSyncAttempt({ ...attempt, outcome: 'delivered', status: response.status });
+        postMessageToClients({ type: 'SYNC_SUCCESS' });
+        return true;
+      }
+      status = response.status;
+      error = `HTTP ${response.status} ${response.statusText}`.trim();
+      permanent = isPermanentFailure(response.status);
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
     }
+  }
+
+  const failed = permanent || attempts >= MAX_SYNC_ATTEMPTS;
+  logger.error(`SW: Failed to send data to webhook (attempt ${attempts}).`, { id: item.id, error, failed });
+  await updateSyncItem({
+    ...item,
+    attempts,
+    lastError: error,
+    status: failed ? 'failed' : 'pending',
+    nextAttemptAt: Date.now() + retryDelay(attempts),
+  });
+  await recordSyncAttempt({ ...attempt, outcome: failed ? 'failed' : 'retrying', status, error });
+  return false;
+};
+
+/**
+ * Asks the browser for a `sync` event once connectivity allows, so the queue is replayed
+ * even if no page is open. Browsers without Background Sync rely on the other replay triggers.
+ * @param tag - The sync to schedule; defaults to replaying the sync queue.
+ */
+const scheduleReplay = async (tag = SYNC_TAG) => {
+  try {
+    await self.registration.sync?.register(tag);
   } catch (error) {
-    logger.error('SW: Error sending data to webhook.', error);
+    logger.warn('SW: Could not register background sync.', error);
   }
 };
 
-const webhookUrl = import.meta.env.VITE_CACHE_WEBHOOK_URL;
+/**
+ * Adds cache entries to the outbox, skipping any whose content hash was already delivered
+ * or is waiting in the queue. Entries of failed batches are added again, so a failure never blocks them for good.
+ * @returns The number of entries added.
+ */
+const addToOutbox = async (results: SearchResult[], identity: SyncIdentity): Promise<number> => {
+  const [synced, pending] = await Promise.all([getSyncedHashes(), getSyncItems('pending')]);
+  const queued = new Set(pending.flatMap(item => (item.entries || []).map(entry => entry.hash)));
+  const addedAt = Date.now();
 
-if (webhookUrl) {
-  const webhookUrlObj = new URL(webhookUrl);
-  registerRoute(
-    ({ url, request }) => 
-      request.method === 'POST' &&
-      url.origin === webhookUrlObj.origin &&
-      url.pathname === webhookUrlObj.pathname,
-    new NetworkOnly({ plugins: [cacheSyncQueue] }),
-    'POST'
+  const candidates: OutboxEntry[] = await Promise.all(
+    results.map(async result => {
+      const entry = toSyncEntry(result);
+      return { hash: await hashSyncEntry(entry), entry, addedAt, ...identity };
+    })
   );
-}
+  const fresh = candidates.filter(({ hash, entry }) => !queued.has(hash) && synced.get(entry.id) !== hash);
+  await addOutboxEntries(fresh);
+  return fresh.length;
+};
 
-self.addEventListener('message', (event: ExtendableMessageEvent) => {
-  const data = event.data as { type: string; payload?: SyncPayload };
-  if (!data) return;
+/**
+ * Turns the outbox into queued batches once it holds a full batch or its oldest entry has waited
+ * the batch window. Each batch is queued in the transaction that removes its entries from the outbox.
+ * @param force - Batch whatever is waiting, regardless of size and age.
+ */
+const flushOutbox = async (config: SyncConfig, force = false) => {
+  const entries = await getOutboxEntries();
+  if (entries.length === 0) return;
+  const due = force
+    || entries.length >= config.batchSize
+    || entries[0].addedAt + DEFAULT_SYNC_BATCH_WINDOW <= Date.now();
+  if (!due) return;
+
+  for (const { webhookUrl, envelope } of buildSyncEnvelopes(entries, config.batchSize)) {
+    await enqueueSyncItem(
+      webhookUrl,
+      envelope,
+      envelope.items.map(({ hash, result }) => ({ id: result.id, hash }))
+    );
+    logger.log(`SW: Queued sync batch ${envelope.batchId} with ${envelope.items.length} entries.`);
+  }
+};
+
+const isSyncEnvelope = (body: unknown): body is SyncEnvelope =>
+  typeof body === 'object' && body !== null && Array.isArray((body as SyncEnvelope).items)
+  && typeof (body as SyncEnvelope).userId === 'string' && typeof (body as SyncEnvelope).fingerprintId === 'string';
+
+/**
+ * Moves entries meant for a webhook that is no longer configured to the configured one: queued batches,
+ * pending or failed, go back to the outbox, and waiting outbox entries are readdressed. They keep their
+ * user and fingerprint and are batched again for the new webhook.
+ */
+const requeueForConfiguredWebhook = async (config: SyncConfig) => {
+  const webhookUrl = config.webhookUrl;
+  if (!webhookUrl) return;
+  const isStale = (url: string) => !isConfiguredWebhookOrigin(url, config);
+
+  const [pending, failed, outbox] = await Promise.all([getSyncItems('pending'), getSyncItems('failed'), getOutboxEntries()]);
+  const staleItems = [...pending, ...failed].filter(item => isStale(item.webhookUrl) && isSyncEnvelope(item.body));
+  const entries: OutboxEntry[] = [
+    ...staleItems.flatMap(item => {
+      const { userId, fingerprintId, items } = item.body as SyncEnvelope;
+      return items.map(({ hash, result }) => ({ hash, entry: result, webhookUrl, userId, fingerprintId, addedAt: item.createdAt }));
+    }),
+    ...outbox.filter(entry => isStale(entry.webhookUrl)).map(entry => ({ ...entry, webhookUrl })),
+  ];
+  if (entries.length === 0) return;
+
+  await requeueSyncItems(staleItems.map(item => item.id), entries);
+  logger.log(`SW: Re-queued ${entries.length} entries for the configured webhook.`);
+};
+
+let replayInFlight: Promise<void> | null = null;
+
+// Set once a page is about to activate a newer worker; from then on that worker owns the queues,
+// unless it never activates (see `watchHandOff`)
+let handedOff = false;
+
+/**
+ * Batches the outbox when due, then replays every due payload in the queue, oldest first,
+ * and reports the queue status. Concurrent triggers share the run in flight so a payload is never sent twice at once.
+ * While sync is disabled or has no webhook, everything stays queued and only the status is reported.
+ * @param force - Ignore the batch window and backoff and send everything now (e.g. when the browser comes back online).
+ */
+const processSyncQueue = (force = false): Promise<void> => {
+  if (replayInFlight) return replayInFlight;
+  if (handedOff) return Promise.resolve();
+
+  replayInFlight = (async () => {
+    try {
+      const config = await getConfig();
+      if (!isSyncActive(config)) return;
+      await requeueForConfiguredWebhook(config);
+      await flushOutbox(config, force);
+      const now = Date.now();
+      const due = (await getSyncItems('pending')).filter(item => force || item.nextAttemptAt <= now);
+      if (due.length > 0) await broadcastSyncStatus(true);
+      for (const item of due) {
+        const delivered = await deliverSyncItem(item, config);
+        // A network error means the webhook is unreachable; leave the rest for the next trigger
+        if (!delivered && !navigator.onLine) break;
+      }
+      if ((await getSyncItems('pending')).length > 0 || (await getOutboxEntries()).length > 0) {
+        await scheduleReplay();
+      }
+    } catch (error) {
+      logger.error('SW: Error replaying sync queue.', error);
+    } finally {
+      replayInFlight = null;
+    }
+    await broadcastSyncStatus();
+  })();
+
+  return replayInFlight;
+};
+
+let batchWindow: Promise<void> | null = null;
+
+/**
+ * Sends the outbox now if it holds a full batch, and otherwise once the batch window has passed.
+ * The returned promise settles after the send, so callers can keep the worker alive with `waitUntil`.
+ */
+const flushWhenDue = async (): Promise<void> => {
+  const [entries, { batchSize }] = await Promise.all([getOutboxEntries(), getConfig()]);
+  if (entries.length === 0) return;
+  if (entries.length >= batchSize) return processSyncQueue();
+
+  if (!batchWindow) {
+    const delay = Math.max(0, entries[0].addedAt + DEFAULT_SYNC_BATCH_WINDOW - Date.now());
+    batchWindow = new Promise<void>(resolve => setTimeout(resolve, delay)).then(() => {
+      batchWindow = null;
+      return processSyncQueue();
+    });
+  }
+  return batchWindow;
+};
+
+/**
+ * Persists the entries of a sync request before anything is sent, so they survive a failed request
+ * or the worker being stopped mid-flight. They are coalesced with other entries by `flushWhenDue`.
+ * @returns The number of entries added to the outbox; none while sync is disabled.
+ * @throws ServiceWorkerProtocolError - SW-403 when the request names a webhook outside the configured origin.
+ */
+const handleSync = async ({ webhookUrl, results, userId, fingerprintId }: Extract<PageRequest, { type: 'SYNC_DATA' }>) => {
+  const config = await getConfig();
+  if (!isSyncActive(config)) return 0;
+  if (!isConfiguredWebhookOrigin(webhookUrl, config)) {
+    throw new ServiceWorkerProtocolError('SW-403', 'Webhook URL does not match the configured origin', {
+      webhookUrl,
+      configured: config.webhookUrl,
+    });
+  }
+  const added = await addToOutbox(results, { webhookUrl, userId, fingerprintId });
+  if (added === 0) logger.log('SW: Sync data already synced or queued; skipping.');
+  return added;
+};
+
+let lastPullAt = 0;
+
+/**
+ * Asks a page for its cached entries and uploads the ones not synced yet.
+ * @param client - The page to ask; defaults to the first open one.
+ * @param force - Ignore `PULL_SYNC_INTERVAL` since the last pull.
+ */
+const pullUnsyncedEntries = async (client?: Client | null, force = false) => {
+  if (!isSyncActive(await getConfig())) return;
+  if (!force && Date.now() - lastPullAt < PULL_SYNC_INTERVAL) return;
+
+  // Only pages can read the conversation cache; without one the pull waits for the next trigger
+  const target = client || (await self.clients.matchAll())[0];
+  if (!target) {
+    logger.log('SW: No open page to pull unsynced entries from.');
+    return;
+  }
+  lastPullAt = Date.now();
+  try {
+    await uploadUnsyncedEntries(await sendRequest(target, { type: 'PULL_UNSYNCED' }));
+  } catch (error) {
+    logger.error('SW: Failed to pull unsynced entries.', error);
+  }
+};
+
+/**
+ * Adds the pulled entries whose content differs from their synced marker to the outbox.
+ * Entries already waiting in the outbox or the queue are skipped.
+ */
+const uploadUnsyncedEntries = async ({ entries, userId, fingerprintId }: UnsyncedEntries) => {
+  const { webhookUrl } = await getConfig();
+  if (!webhookUrl || !Array.isArray(entries)) return;
+
+  try {
+    const now = Date.now();
+    const live = entries.filter(entry => entry.expires > now).map(entry => entry.value);
+    const added = await addToOutbox(live, { webhookUrl, userId, fingerprintId });
+
+    await pruneSyncedMarkers(new Set(entries.map(entry => entry.value.id)));
+    logger.log(`SW: Pulled ${entries.length} cache entries, ${added} not synced yet.`);
+    if (added === 0) return;
+  } catch (error) {
+    logger.error('SW: Failed to queue unsynced entries.', error);
+    return;
+  }
+  await flushWhenDue();
+};
+
+/**
+ * Shows an answer notification if the user opted in and the browser allows it. Nothing is shown
+ * while a tab has focus, since open pages announce answers with a toast.
+ */
+const showAnswerNotification = async ({ title, body, url, tag }: AnswerNotification) => {
+  const { notifications } = await getConfig();
+  if (!notifications || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  if ((await self.clients.matchAll()).some(client => client.focused)) return;
+  try {
+    await self.registration.showNotification(title, { body, tag, data: { url } });
+  } catch (error) {
+    logger.warn('SW: Could not show notification.', error);
+  }
+};
+
+/**
+ * Focuses a tab and opens the notification's thread in it, or opens a new tab when none is open.
+ * The tab navigates itself on OPEN_THREAD so its state survives.
+ */
+const openNotificationTarget = async (url: string) => {
+  const [client] = (await self.clients.matchAll()) as ReadonlyArray<WindowClient>;
+  if (!client) {
+    await self.clients.openWindow(url);
+    return;
+  }
+  await client.focus();
+  client.postMessage(toWire<WorkerEvent>({ type: 'OPEN_THREAD', url }), []);
+};
+
+/**
+ * Has a page answer one queued question, then removes it from the queue and announces the answer.
+ * Failed attempts stay queued until `MAX_QUERY_ATTEMPTS`, after which the question is dropped.
+ */
+const runQueuedQuery = async (queued: QueuedQuery, client: Client) => {
+  try {
+    const { resultId } = await sendRequest(client, { type: 'RUN_QUERY', query: queued }, QUERY_TIMEOUT);
+    await deleteQueuedQuery(queued.id);
+    logger.log(`SW: Queued query answered: ${queued.query}`);
+    postMessageToClients({ type: 'QUERY_ANSWERED', id: queued.id, query: queued.query, parentId: queued.parentId, resultId });
+    await showAnswerNotification({
+      title: 'Your queued question was answered',
+      body: queued.query,
+      tag: `query-${queued.id}`,
+      url: threadUrl(queued.parentId || resultId),
+    });
+  } catch (runError) {
+    const attempts = queued.attempts + 1;
+    const error = runError instanceof Error ? runError.message : String(runError);
+    logger.error(`SW: Failed to answer queued query (attempt ${attempts}).`, { id: queued.id, error });
+    if (attempts < MAX_QUERY_ATTEMPTS) {
+      await putQueuedQuery({ ...queued, attempts, lastError: error });
+      return;
+    }
+    await deleteQueuedQuery(queued.id);
+    postMessageToClients({ type: 'QUERY_FAILED', id: queued.id, query: queued.query, error });
+  }
+};
 
-  logger.log('SW: Received message:', data);
+let queriesInFlight: Promise<void> | null = null;
 
-  switch (data.type) {
-    case 'SYNC_DATA':
-      if (data.payload) {
-        event.waitUntil(handleSync(data.payload));
+/**
+ * Answers the questions queued while offline, oldest first. Only pages can call the LLM and write
+ * the conversation cache, so without an open page the questions wait for the next trigger.
+ * @param client - The page to ask; defaults to the first open one.
+ */
+const runQueuedQueries = (client?: Client | null): Promise<void> => {
+  if (queriesInFlight) return queriesInFlight;
+  if (handedOff) return Promise.resolve();
+
+  queriesInFlight = (async () => {
+    try {
+      const queries = await getQueuedQueries();
+      if (queries.length === 0 || !navigator.onLine) return;
+      const target = client || (await self.clients.matchAll())[0];
+      if (!target) {
+        logger.log('SW: No open page to answer queued queries.');
+        return;
+      }
+      for (const queued of queries) {
+        if (!navigator.onLine) break;
+        await runQueuedQuery(queued, target);
       }
-      break;
+    } catch (error) {
+      logger.error('SW: Error running queued queries.', error);
+    } finally {
+      queriesInFlight = null;
+    }
+  })();
+
+  return queriesInFlight;
+};
+
+/**
+ * Takes the queues back after a hand-off that did not replace this worker: the waiting worker
+ * was discarded, or it is still waiting after `HAND_OFF_TIMEOUT` (e.g. SKIP_WAITING was lost
+ * or the page closed before the reload).
+ * @param waiting - The worker the queues were handed to, if any.
+ */
+const watchHandOff = (waiting: ServiceWorker | null) => {
+  const resume = (reason: string) => {
+    if (!handedOff) return;
+    handedOff = false;
+    logger.warn(`SW: Taking the sync queue back; ${reason}.`);
+    processSyncQueue().then(() => runQueuedQueries());
+  };
+  const timer = setTimeout(() => {
+    if (!waiting || waiting.state === 'installed' || waiting.state === 'redundant') {
+      resume('the waiting worker did not activate');
+    }
+  }, HAND_OFF_TIMEOUT);
+  waiting?.addEventListener('statechange', () => {
+    if (waiting.state === 'redundant') {
+      clearTimeout(timer);
+      resume('the waiting worker was discarded');
+    } else if (waiting.state === 'activating') {
+      clearTimeout(timer);
+    }
+  });
+};
+
+/**
+ * Prepares this worker to be replaced: lets the sync replay and queued questions in flight finish,
+ * and stops new runs. Everything still queued is in IndexedDB, where the next worker picks it up
+ * on activation, so no payload is sent by both workers.
+ * @returns The queue status left for the next worker.
+ */
+const handOff = async (): Promise<SyncStatus> => {
+  handedOff = true;
+  watchHandOff(self.registration.waiting);
+  await Promise.all([replayInFlight, queriesInFlight]);
+  logger.log('SW: Handed off the sync queue to the waiting worker.');
+  return { ...(await getSyncQueueCounts()), syncing: false };
+};
+
+/**
+ * Answers a page request. Work that outlives the response (sending batches, pulling entries)
+ * is handed to `extend` so the worker stays alive for it.
+ * @returns The response payload.
+ */
+const handlePageRequest = async (
+  request: PageRequest,
+  source: Client | null,
+  extend: (work: Promise<unknown>) => void
+): Promise<ResponseMap[PageRequest['type']]> => {
+  switch (request.type) {
+    case 'HELLO':
+      return { version: SW_PROTOCOL_VERSION };
+    case 'SYNC_DATA': {
+      const queued = await handleSync(request);
+      if (queued > 0) extend(flushWhenDue());
+      return { queued };
+    }
+    case 'PULL_SYNC':
+      extend(pullUnsyncedEntries(source));
+      return null;
+    case 'REPLAY_SYNC':
+      extend(processSyncQueue(true));
+      return null;
+    case 'RETRY_FAILED_SYNC': {
+      const retried = await retryFailedSyncItems();
+      logger.log(`SW: Retrying ${retried} failed sync batches.`);
+      extend(processSyncQueue(true));
+      return { retried };
+    }
+    case 'DISCARD_FAILED_SYNC': {
+      const discarded = await deleteFailedSyncItems();
+      logger.log(`SW: Discarded ${discarded} failed sync batches.`);
+      extend(broadcastSyncStatus());
+      return { discarded };
+    }
+    case 'GET_SYNC_STATUS': {
+      const status: SyncStatus = { ...(await getSyncQueueCounts()), syncing: replayInFlight !== null };
+      return status;
+    }
+    case 'GET_SYNC_LOG':
+      return { entries: await getSyncLog() };
+    case 'GET_CONFIG':
+      return { config: await getConfig() };
+    case 'SET_CONFIG': {
+      const config = await updateConfig(request.config);
+      // Re-enabling sync or pointing it at a new webhook sends whatever waited meanwhile
+      extend(processSyncQueue(true));
+      return { config };
+    }
+    case 'QUEUE_QUERY': {
+      const { query, parentId, userId, providerId } = request;
+      const queued: QueuedQuery = { id: crypto.randomUUID(), query, parentId, userId, providerId, queuedAt: Date.now(), attempts: 0 };
+      await putQueuedQuery(queued);
+      logger.log(`SW: Queued query until the connection returns: ${query}`);
+      extend(scheduleReplay(QUERY_SYNC_TAG));
+      return { id: queued.id };
+    }
+    case 'RUN_QUEUED_QUERIES':
+      extend(runQueuedQueries(source));
+      return null;
+    case 'HAND_OFF':
+      return handOff();
+    case 'LOCAL_PUSH':
+      // Delivered like a push message, so the page can notify without a push service
+      extend(showAnswerNotification(request.notification));
+      return null;
+  }
+};
+
+self.addEventListener('message', (event: ExtendableMessageEvent) => {
+  // Checked before validation: the page asking this waiting worker to take over is from an older build
+  if (isSkipWaitingMessage(event.data)) {
+    logger.log('SW: Activation requested by a page. Skipping waiting.');
+    self.skipWaiting();
+    return;
   }
+
+  const port = event.ports[0];
+  let request: ReturnType<typeof parsePageRequest>;
+  try {
+    request = parsePageRequest(event.data);
+  } catch (error) {
+    // A page from another build; answer with the error so it fails instead of waiting
+    logger.error('SW: Rejected message:', { data: event.data, error });
+    const id = (event.data as { id?: unknown } | null)?.id;
+    if (port) respondWithError(port, typeof id === 'string' ? id : '', error);
+    return;
+  }
+
+  logger.log('SW: Received message:', request);
+  event.waitUntil(
+    handlePageRequest(request, event.source as Client | null, work => event.waitUntil(work))
+      .then(result => {
+        if (port) respond(port, request.id, result);
+      })
+      .catch(error => {
+        logger.error(`SW: Failed to handle ${request.type}.`, error);
+        if (port) respondWithError(port, request.id, error);
+      })
+  );
 });
 
 precacheAndRoute(self.__WB_MANIFEST);
 
 self.addEventListener('activate', (event: ExtendableEvent) => {
   logger.log('SW: Activated. Claiming clients.');
-  event.waitUntil(self.clients.claim());
+  // Claiming takes control of pages opened before the first install; pages of a previous worker switch on activation.
+  // Then pick up payloads left in the queue by a previous worker, and look for entries it never saw
+  event.waitUntil(
+    self.clients.claim()
+      .then(() => processSyncQueue())
+      .then(() => pullUnsyncedEntries(null, true))
+      .then(() => runQueuedQueries())
+  );
 });
 
+// An update waits until a page asks for it with SKIP_WAITING, so it never replaces a worker mid-sync
 self.addEventListener('install', () => {
-  logger.log('SW: Installed. Forcing activation.');
-  self.skipWaiting();
+  logger.log('SW: Installed. Waiting for a page to activate this version.');
 });
 
-self.addEventListener('sync', event => {
-  if (event.tag === 'workbox-background-sync:sync-cache') {
+self.addEventListener('sync', (event: SyncEvent) => {
+  if (event.tag === SYNC_TAG) {
     logger.log('SW: Background sync event received');
-    // Workbox handles replaying queued requests automatically
+    event.waitUntil(processSyncQueue(true));
+  } else if (event.tag === QUERY_SYNC_TAG) {
+    logger.log('SW: Background sync for queued queries received');
+    event.waitUntil(runQueuedQueries());
   }
 });
+
+self.addEventListener('periodicsync', (event: PeriodicSyncEvent) => {
+  if (event.tag === PULL_SYNC_TAG) {
+    logger.log('SW: Periodic sync event received');
+    event.waitUntil(pullUnsyncedEntries(null, true));
+  }
+});
+
+self.addEventListener('push', (event: PushEvent) => {
+  logger.log('SW: Push message received');
+  event.waitUntil(showAnswerNotification(parsePushPayload(event.data?.text())));
+});
+
+self.addEventListener('notificationclick', (event: NotificationEvent) => {
+  event.notification.close();
+  const url = (event.notification.data as { url?: string } | null)?.url;
+  // Notifications shown by an older worker may carry any URL, so check it again before opening it
+  event.waitUntil(openNotificationTarget(url && isSameOriginPath(url) ? url : '/'));
+});
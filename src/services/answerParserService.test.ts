@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSources, parseAnswer } from './answerParserService';
+
+const structured = (sources: unknown[]) => JSON.stringify({
+  title: 'Tides',
+  bullets: [{ text: 'The moon pulls the oceans.', citations: [1] }],
+  faq: [{ question: 'How often?', answer: 'Twice a day.', citations: [2] }],
+  sources,
+});
+
+describe('parseAnswer', () => {
+  it('renders a structured answer as markdown with its sources', () => {
+    const parsed = parseAnswer(structured([{ id: 1, url: 'https://www.example.com/tides', title: 'Tides' }]));
+
+    expect(parsed.isStructured).toBe(true);
+    expect(parsed.title).toBe('Tides');
+    expect(parsed.content).toBe('1. The moon pulls the oceans. [1]\n\n### FAQ\n\n**How often?**\n\nTwice a day. [2]');
+    expect(parsed.sources).toEqual([{ id: 1, url: 'https://www.example.com/tides', title: 'Tides', domain: 'example.com' }]);
+  });
+
+  it('reads JSON wrapped in a code fence', () => {
+    const parsed = parseAnswer(`\`\`\`json\n${structured([])}\n\`\`\``);
+
+    expect(parsed.isStructured).toBe(true);
+  });
+
+  it('drops sources that are not http(s) links and keeps the rest', () => {
+    const parsed = parseAnswer(structured([
+      { id: 1, url: 'javascript:alert(document.cookie)' },
+      { id: 2, url: 'data:text/html,<script>alert(1)</script>' },
+      { id: 3, url: 'not a url' },
+      { id: 4, url: 'http://example.org/ok' },
+    ]));
+
+    expect(parsed.isStructured).toBe(true);
+    expect(parsed.sources.map(source => source.url)).toEqual(['http://example.org/ok']);
+  });
+
+  it('reads the answer text from JSON that does not follow the schema', () => {
+    const parsed = parseAnswer(JSON.stringify({
+      answer: 'Because of the moon.',
+      sources: [{ url: 'javascript:alert(1)' }, { url: 'https://example.com' }],
+    }));
+
+    expect(parsed).toEqual({
+      content: 'Because of the moon.',
+      sources: [{ url: 'https://example.com', id: 1, domain: 'example.com' }],
+      isStructured: false,
+    });
+  });
+
+  it('never shows JSON without answer text, or broken JSON, as the answer', () => {
+    expect(parseAnswer('{"foo": 1}').content).not.toContain('{');
+    expect(parseAnswer('{"bullets": [').content).not.toContain('{');
+  });
+
+  it('splits free text on the last "Sources:" heading', () => {
+    const parsed = parseAnswer('The moon pulls the oceans.\n\nSources:\n[1] [Tides](https://example.com/tides)\n2. javascript:alert(1)');
+
+    expect(parsed.content).toBe('The moon pulls the oceans.');
+    expect(parsed.sources).toEqual([{ id: 1, url: 'https://example.com/tides', title: 'Tides', domain: 'example.com' }]);
+  });
+
+  it('uses the provider sources for free text without a sources list', () => {
+    const parsed = parseAnswer('Plain answer.', [{ url: 'https://example.com' }]);
+
+    expect(parsed.content).toBe('Plain answer.');
+    expect(parsed.sources.map(source => source.url)).toEqual(['https://example.com']);
+  });
+});
+
+describe('normalizeSources', () => {
+  it('drops stored sources that are not http(s) links', () => {
+    const sources = normalizeSources([
+      { url: 'javascript:alert(1)' },
+      { url: 'JAVASCRIPT:alert(1)' },
+      { url: 'https://example.com/a', title: 'A' },
+    ]);
+
+    expect(sources).toEqual([{ url: 'https://example.com/a', title: 'A', id: 1, domain: 'example.com' }]);
+  });
+
+  it('reads legacy newline-separated source strings', () => {
+    const sources = normalizeSources('1. https://example.com/a\n2. [B](https://example.org/b)');
+
+    expect(sources.map(({ id, url }) => ({ id, url }))).toEqual([
+      { id: 1, url: 'https://example.com/a' },
+      { id: 2, url: 'https://example.org/b' },
+    ]);
+  });
+
+  it('returns no sources for empty input', () => {
+    expect(normalizeSources(undefined)).toEqual([]);
+    expect(normalizeSources(null)).toEqual([]);
+  });
+});
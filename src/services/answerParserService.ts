@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { getSourceDomain, isHttpUrl } from '../utils/sourceUtils';
+import type { SearchSource } from '../types/search';
+
+// Schema the system prompts ask the model to answer with
+const citationsSchema = z.array(z.number().int().positive()).default([]);
+
+const sourceSchema = z.object({
+  id: z.number().int().positive().optional(),
+  url: z.string().url().refine(isHttpUrl, 'Source URLs must use http or https'),
+  title: z.string().optional(),
+  snippet: z.string().optional(),
+});
+
+type StructuredSource = z.infer<typeof sourceSchema>;
+
+/**
+ * Keeps the sources that validate and drops the rest, so one bad URL does not discard the answer.
+ * @param items - Sources as returned by the model.
+ * @returns The valid sources.
+ */
+const validSources = (items: unknown[]): StructuredSource[] => {
+  const sources = items.flatMap(item => {
+    const parsed = sourceSchema.safeParse(item);
+    return parsed.success ? [parsed.data as StructuredSource] : [];
+  });
+  if (sources.length < items.length) {
+    logger.warn(`AnswerParser: Dropped ${items.length - sources.length} invalid source(s)`);
+  }
+  return sources;
+};
+
+const structuredAnswerSchema = z.object({
+  title: z.string().optional(),
+  bullets: z.array(z.object({
+    text: z.string(),
+    citations: citationsSchema,
+  })).default([]),
+  faq: z.array(z.object({
+    question: z.string(),
+    answer: z.string(),
+    citations: citationsSchema,
+  })).default([]),
+  sources: z.array(z.unknown()).default([]).transform(validSources),
+});
+
+// Shown instead of raw JSON when the model's answer cannot be read
+const UNREADABLE_ANSWER_MESSAGE = 'The answer could not be read. Please try again.';
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>;
+
+// Result of parsing raw model output into renderable markdown plus structured sources
+export interface ParsedAnswer {
+  content: string;
+  sources: SearchSource[];
+  title?: string;
+  isStructured: boolean;
+}
+
+// JSON description embedded in the system prompts
+export const ANSWER_SCHEMA_DESCRIPTION = `{
+  "title": "short title for the answer",
+  "bullets": [{ "text": "one concise point", "citations": [1, 2] }],
+  "faq": [{ "question": "a commonly asked question", "answer": "its answer", "citations": [1] }],
+  "sources": [{ "id": 1, "url": "https://...", "title": "page title", "snippet": "relevant excerpt" }]
+}`;
+
+/**
+ * Removes a surrounding markdown code fence, which models often add around JSON.
+ * @param raw - The raw model output.
+ * @returns The output without the fence.
+ */
+const stripCodeFence = (raw: string): string =>
+  raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+const formatCitations = (citations: number[]) => citations.map(n => `[${n}]`).join('');
+
+/**
+ * Renders a validated structured answer as markdown for the result views.
+ * @param answer - The structured answer.
+ * @returns Markdown with numbered bullets and an FAQ section.
+ */
+const renderStructuredAnswer = (answer: StructuredAnswer): string => {
+  const bullets = answer.bullets
+    .map((bullet, i) => `${i + 1}. ${bullet.text} ${formatCitations(bullet.citations)}`.trim());
+  const faq = answer.faq
+    .map(item => `**${item.question}**\n\n${item.answer} ${formatCitations(item.citations)}`.trim());
+  return [bullets.join('\n'), faq.length > 0 ? `### FAQ\n\n${faq.join('\n\n')}` : '']
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+/**
+ * Parses one line of a free-text "Sources:" list, e.g. `[1] [Title](https://...)` or `2. https://...`.
+ * @param line - The source line.
+ * @param fallbackId - The citation number to use when the line has none.
+ * @returns The parsed source, or null when the line has no URL.
+ */
+const parseSourceLine = (line: string, fallbackId: number): SearchSource | null => {
+  const numberMatch = line.match(/^\s*[-*]?\s*\[?(\d+)[\].:)]?\s*/);
+  const rest = numberMatch ? line.slice(numberMatch[0].length) : line.replace(/^\s*[-*]\s*/, '');
+  const linkMatch = rest.match(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/);
+  const urlMatch = rest.match(/https?:\/\/[^\s)\]]+/);
+  const url = linkMatch ? linkMatch[2] : urlMatch?.[0];
+  if (!url) return null;
+
+  const title = linkMatch
+    ? linkMatch[1]
+    : rest.replace(url, '').replace(/[\s\-–:|]+$/, '').replace(/^[\s\-–:|]+/, '').trim();
+  return {
+    id: numberMatch ? Number(numberMatch[1]) : fallbackId,
+    url,
+    ...(title ? { title } : {}),
+  };
+};
+
+/**
+ * Normalizes sources from any stored shape (structured objects, legacy `string[]` lines
+ * or a single newline-separated string) into structured sources with their domains.
+ * Sources that are not http(s) links are dropped.
+ * @param raw - Sources as stored in the cache or returned by Supabase.
+ * @returns The structured sources.
+ */
+export const normalizeSources = (raw: unknown): SearchSource[] => {
+  if (!raw) return [];
+  const items = Array.isArray(raw) ? raw : [raw];
+  const sources: SearchSource[] = [];
+  items.forEach(item => {
+    if (typeof item === 'string') {
+      item.split('\n').filter(line => line.trim()).forEach(line => {
+        const source = parseSourceLine(line, sources.length + 1);
+        if (source) sources.push(source);
+      });
+    } else if (item && typeof item === 'object' && typeof (item as SearchSource).url === 'string') {
+      const source = item as SearchSource;
+      if (isHttpUrl(source.url)) sources.push({ ...source, id: source.id || sources.length + 1 });
+    }
+  });
+  return sources.map(source => ({ ...source, domain: source.domain || getSourceDomain(source.url) }));
+};
+
+/**
+ * Reads a JSON answer that does not follow the schema, e.g. `{ "answer": "..." }`.
+ * @param json - The parsed model output.
+ * @param fallbackSources - Sources supplied alongside the content by the provider, if any.
+ * @returns The answer text and sources, or null when the JSON carries no answer text.
+ */
+const parseUnstructuredJson = (json: unknown, fallbackSources?: unknown): ParsedAnswer | null => {
+  if (!json || typeof json !== 'object') return null;
+  const { answer, content, title, sources } = json as Record<string, unknown>;
+  const text = [answer, content].find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  if (!text) return null;
+  return {
+    content: text.trim(),
+    sources: normalizeSources(Array.isArray(sources) ? validSources(sources) : fallbackSources),
+    ...(typeof title === 'string' ? { title } : {}),
+    isStructured: false,
+  };
+};
+
+/**
+ * Parses model output. JSON matching the answer schema is validated and rendered to markdown,
+ * other JSON is searched for an `answer` or `content` field and never shown raw;
+ * anything else falls back to the text heuristic of splitting on "Sources:".
+ * @param raw - The raw model output.
+ * @param fallbackSources - Sources supplied alongside the content by the provider, if any.
+ * @returns The renderable content and structured sources.
+ */
+export const parseAnswer = (raw: string, fallbackSources?: unknown): ParsedAnswer => {
+  const candidate = stripCodeFence(raw);
+  if (candidate.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(candidate);
+    } catch (error) {
+      logger.warn('AnswerParser: Answer is not valid JSON', error);
+    }
+    if (json !== undefined) {
+      const parsed = structuredAnswerSchema.safeParse(json);
+      if (parsed.success && (parsed.data.bullets.length > 0 || parsed.data.faq.length > 0)) {
+        return {
+          content: renderStructuredAnswer(parsed.data),
+          sources: normalizeSources(parsed.data.sources),
+          title: parsed.data.title,
+          isStructured: true,
+        };
+      }
+      if (!parsed.success) logger.warn('AnswerParser: Structured answer failed validation', parsed.error.issues);
+      const unstructured = parseUnstructuredJson(json, fallbackSources);
+      if (unstructured) return unstructured;
+    }
+    return { content: UNREADABLE_ANSWER_MESSAGE, sources: normalizeSources(fallbackSources), isStructured: false };
+  }
+
+  // Only a "Sources:" heading at the start of a line (the last one) begins the sources list
+  const headings = Array.from(raw.matchAll(/(?:^|\n)[ \t]*(?:#{1,6}[ \t]*)?\**Sources\**:\**[ \t]*/gi));
+  const heading = headings[headings.length - 1];
+  if (!heading || heading.index === undefined) {
+    return { content: raw.trim(), sources: normalizeSources(fallbackSources), isStructured: false };
+  }
+  return {
+    content: raw.slice(0, heading.index).trim(),
+    sources: normalizeSources(raw.slice(heading.index + heading[0].length)),
+    isStructured: false,
+  };
+};
+
+/**
+ * Builds a readable preview of a partially streamed answer. For JSON answers only the
+ * bullet and FAQ strings that have fully arrived are shown.
+ * @param raw - The output received so far.
+ * @returns The preview content and any sources parsed so far.
+ */
+export const previewPartialAnswer = (raw: string): ParsedAnswer => {
+  const candidate = stripCodeFence(raw);
+  if (!candidate.startsWith('{')) return parseAnswer(raw);
+
+  const completedStrings = (key: string) =>
+    Array.from(candidate.matchAll(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`, 'g')))
+      .map(match => {
+        try {
+          return JSON.parse(`"${match[1]}"`) as string;
+        } catch {
+          return match[1];
+        }
+      });
+
+  const bullets = completedStrings('text').map((text, i) => `${i + 1}. ${text}`);
+  const questions = completedStrings('question');
+  const answers = completedStrings('answer');
+  const faq = questions.map((question, i) => `**${question}**${answers[i] ? `\n\n${answers[i]}` : ''}`);
+  return {
+    content: [bullets.join('\n'), faq.length > 0 ? `### FAQ\n\n${faq.join('\n\n')}` : ''].filter(Boolean).join('\n\n'),
+    sources: [],
+    isStructured: true,
+  };
+};
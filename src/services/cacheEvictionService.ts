@@ -0,0 +1,145 @@
+import { logger } from '../utils/logger';
+import {
+  getAllConversationRecords,
+  getConversationRecordsByRoot,
+  deleteConversationRecords,
+  type ConversationRecord,
+} from '../lib/conversationDb';
+import type { SearchResult } from '../types/search';
+
+// Budget for the local conversation cache
+export interface CacheBudget {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_CACHE_BUDGET: CacheBudget = {
+  maxEntries: Number(import.meta.env.VITE_CACHE_MAX_ENTRIES) || 500,
+  maxBytes: Number(import.meta.env.VITE_CACHE_MAX_BYTES) || 5 * 1024 * 1024, // 5 MB
+};
+
+// Aggregated view of one conversation thread; threads are always evicted as a unit
+interface ThreadSummary {
+  rootId: string;
+  ids: string[];
+  bytes: number;
+  lastAccessed: number;
+  expires: number;
+}
+
+/**
+ * Estimates the stored size of a search result in bytes.
+ * @param value - The search result to measure.
+ * @returns The UTF-8 length of its JSON serialization.
+ */
+export const estimateRecordSize = (value: SearchResult): number =>
+  new TextEncoder().encode(JSON.stringify(value)).length;
+
+/**
+ * Groups records by thread so eviction never separates a parent from its replies.
+ * @param records - The conversation records to group.
+ * @returns One summary per thread.
+ */
+function summarizeThreads(records: ConversationRecord[]): ThreadSummary[] {
+  const threads = new Map<string, ThreadSummary>();
+  records.forEach(record => {
+    const thread = threads.get(record.rootId) || {
+      rootId: record.rootId,
+      ids: [],
+      bytes: 0,
+      lastAccessed: 0,
+      expires: 0,
+    };
+    thread.ids.push(record.id);
+    thread.bytes += record.size ?? estimateRecordSize(record.value);
+    thread.lastAccessed = Math.max(thread.lastAccessed, record.lastAccessed ?? record.timestamp);
+    thread.expires = Math.max(thread.expires, record.expires);
+    threads.set(record.rootId, thread);
+  });
+  return Array.from(threads.values());
+}
+
+/**
+ * Removes every thread whose records have all expired.
+ * @returns A promise that resolves to the number of records removed.
+ */
+export const sweepExpiredEntries = async (): Promise<number> => {
+  try {
+    const now = Date.now();
+    const expiredIds = summarizeThreads(await getAllConversationRecords())
+      .filter(thread => thread.expires < now)
+      .flatMap(thread => thread.ids);
+    await deleteConversationRecords(expiredIds);
+    if (expiredIds.length > 0) {
+      logger.log(`CacheEviction: Swept ${expiredIds.length} expired cache entries`);
+    }
+    return expiredIds.length;
+  } catch (error) {
+    logger.error('CacheEviction: Failed to sweep expired entries:', error);
+    return 0;
+  }
+};
+
+/**
+ * Removes a single thread if all of its records have expired.
+ * @param rootId - The thread's root result ID.
+ * @returns A promise that resolves to true when the thread was removed.
+ */
+export const removeThreadIfExpired = async (rootId: string): Promise<boolean> => {
+  const records = await getConversationRecordsByRoot(rootId);
+  const now = Date.now();
+  if (records.length === 0 || records.some(record => record.expires >= now)) return false;
+  await deleteConversationRecords(records.map(record => record.id));
+  return true;
+};
+
+/**
+ * Evicts least recently used threads until the cache fits the budget.
+ * @param budget - The entry and byte limits to enforce.
+ * @param protectedRootId - A thread that must survive, typically the one just written.
+ * @returns A promise that resolves to the number of records removed.
+ */
+export const enforceCacheBudget = async (
+  budget: CacheBudget = DEFAULT_CACHE_BUDGET,
+  protectedRootId?: string
+): Promise<number> => {
+  try {
+    const threads = summarizeThreads(await getAllConversationRecords())
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+    let entries = threads.reduce((total, thread) => total + thread.ids.length, 0);
+    let bytes = threads.reduce((total, thread) => total + thread.bytes, 0);
+
+    const evictedIds: string[] = [];
+    for (const thread of threads) {
+      if (entries <= budget.maxEntries && bytes <= budget.maxBytes) break;
+      if (thread.rootId === protectedRootId) continue;
+      evictedIds.push(...thread.ids);
+      entries -= thread.ids.length;
+      bytes -= thread.bytes;
+    }
+
+    await deleteConversationRecords(evictedIds);
+    if (evictedIds.length > 0) {
+      logger.log(`CacheEviction: Evicted ${evictedIds.length} entries to fit budget`, { entries, bytes, budget });
+    }
+    return evictedIds.length;
+  } catch (error) {
+    logger.error('CacheEviction: Failed to enforce cache budget:', error);
+    return 0;
+  }
+};
+
+/**
+ * Evicts the single least recently used thread, used to free space after a quota error.
+ * @param protectedRootId - A thread that must survive.
+ * @returns A promise that resolves to true when a thread was evicted.
+ */
+export const evictLeastRecentlyUsedThread = async (protectedRootId?: string): Promise<boolean> => {
+  const [oldest] = summarizeThreads(await getAllConversationRecords())
+    .filter(thread => thread.rootId !== protectedRootId)
+    .sort((a, b) => a.lastAccessed - b.lastAccessed);
+  if (!oldest) return false;
+  await deleteConversationRecords(oldest.ids);
+  logger.log('CacheEviction: Evicted least recently used thread after quota error:', oldest.rootId);
+  return true;
+};
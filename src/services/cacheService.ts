@@ -1,6 +1,29 @@
 import type { SearchResult, SearchHistoryItem } from '../types/search';
 import { logger } from '../utils/logger';
 import { sha512 as computeSha512 } from '../utils/hashUtils';
+import {
+  CONVERSATION_STORE,
+  HISTORY_STORE,
+  openConversationDb,
+  requestToPromise,
+  transactionDone,
+  getConversationRecord,
+  getConversationRecordsByRoot,
+  getAllConversationRecords,
+  touchConversationRecord,
+  deleteConversationRecords,
+  clearStore,
+  type ConversationRecord,
+  type HistoryRecord,
+} from '../lib/conversationDb';
+import {
+  estimateRecordSize,
+  sweepExpiredEntries,
+  removeThreadIfExpired,
+  enforceCacheBudget,
+  evictLeastRecentlyUsedThread,
+} from './cacheEvictionService';
+import { findCachedResultsByQueryHash, toCachedSearchResult } from '../lib/cacheRepository';
 
 interface CacheEntry {
   value: SearchResult;
@@ -9,47 +32,167 @@ interface CacheEntry {
 }
 
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_HISTORY_ITEMS = 50; // Unpinned items only
+
+// Legacy localStorage keys, read once by the IndexedDB migration
 const CONVERSATION_PREFIX = 'conv_';
 const HISTORY_KEY = 'search-history';
 
-// Store individual results by their ID and maintain thread structure
-export const saveSearchResult = async (result: SearchResult): Promise<void> => {
+let cacheReady: Promise<void> | null = null;
+
+/**
+ * Moves conversation entries and search history left in localStorage by earlier
+ * versions into IndexedDB. Legacy keys are removed only after the transaction commits,
+ * so a failed migration is retried on the next page load.
+ */
+const migrateLegacyStorage = async (): Promise<void> => {
+  if (typeof localStorage === 'undefined') return;
+
   try {
-    logger.log('CacheService: Saving search result to cache:', result.id);
-    const entry: CacheEntry = {
-      value: result,
-      expires: Date.now() + CACHE_TTL,
-      timestamp: Date.now()
+    const legacyEntries: Record<string, CacheEntry> = {};
+    const legacyKeys: string[] = [];
+    Object.keys(localStorage).forEach(key => {
+      if (!key.startsWith(CONVERSATION_PREFIX)) return;
+      legacyKeys.push(key);
+      try {
+        const entry: CacheEntry = JSON.parse(localStorage.getItem(key) || '{}');
+        if (entry.value) legacyEntries[key.slice(CONVERSATION_PREFIX.length)] = entry;
+      } catch (e) {
+        logger.error('CacheService: Skipping unreadable legacy cache entry:', key, e);
+      }
+    });
+    const legacyHistory = localStorage.getItem(HISTORY_KEY);
+    if (legacyKeys.length === 0 && !legacyHistory) return;
+
+    // Walk parent links to find each entry's thread root
+    const resolveRootId = (id: string): string => {
+      const seen = new Set<string>();
+      let currentId = id;
+      while (legacyEntries[currentId]?.value.parentId && !seen.has(currentId)) {
+        seen.add(currentId);
+        const parentId = legacyEntries[currentId].value.parentId as string;
+        if (!legacyEntries[parentId]) return parentId;
+        currentId = parentId;
+      }
+      return currentId;
     };
-// Removed unused fingerprintId variable
-    logger.log('CacheService: Created cache entry with timestamp:', new Date(entry.timestamp).toISOString());
-    // Save the main result
-    localStorage.setItem(`${CONVERSATION_PREFIX}${result.id}`, JSON.stringify(entry));
-
-    // If this is a reply, update parent's replies list
-    if (result.parentId) {
-      const parentEntry = localStorage.getItem(`${CONVERSATION_PREFIX}${result.parentId}`);
-      if (parentEntry) {
-        const parent: CacheEntry = JSON.parse(parentEntry);
-        const updatedParent = {
-          ...parent.value,
+
+    const now = Date.now();
+    const records: ConversationRecord[] = Object.entries(legacyEntries)
+      .filter(([, entry]) => now <= entry.expires)
+      .map(([id, entry]) => ({
+        id,
+        value: entry.value,
+        expires: entry.expires,
+        timestamp: typeof entry.timestamp === 'number' ? entry.timestamp : Date.parse(entry.timestamp) || now,
+        parentId: entry.value.parentId,
+        rootId: resolveRootId(id),
+      }));
+    const historyItems: HistoryRecord[] = legacyHistory ? JSON.parse(legacyHistory) : [];
+
+    const db = await openConversationDb();
+    const tx = db.transaction([CONVERSATION_STORE, HISTORY_STORE], 'readwrite');
+    const conversations = tx.objectStore(CONVERSATION_STORE);
+    const history = tx.objectStore(HISTORY_STORE);
+    records.forEach(record => conversations.put(record));
+    historyItems.forEach(item => history.put(item));
+    await transactionDone(tx);
+
+    legacyKeys.forEach(key => localStorage.removeItem(key));
+    localStorage.removeItem(HISTORY_KEY);
+    logger.log(`CacheService: Migrated ${records.length} cache entries and ${historyItems.length} history items to IndexedDB`);
+  } catch (error) {
+    logger.error('CacheService: Legacy cache migration failed:', error);
+  }
+};
+
+// Runs the one-time migration and sweeps expired threads before the first cache access of the session
+const ensureCacheReady = (): Promise<void> => {
+  if (!cacheReady) {
+    cacheReady = migrateLegacyStorage().then(async () => {
+      await sweepExpiredEntries();
+      await enforceCacheBudget();
+    });
+  }
+  return cacheReady;
+};
+
+const isExpired = (record: ConversationRecord) => Date.now() > record.expires;
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+/**
+ * Writes a result (and its parent's updated replies list) in one transaction.
+ * Every record of the thread shares the new expiry, so a parent never expires before its replies.
+ * @returns The root ID of the thread the result belongs to.
+ */
+const writeSearchResult = async (result: SearchResult): Promise<string> => {
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_STORE, 'readwrite');
+  const store = tx.objectStore(CONVERSATION_STORE);
+  const now = Date.now();
+  const expires = now + CACHE_TTL;
+
+  let rootId = result.id;
+  // If this is a reply, update parent's replies list and refresh the thread's expiry
+  if (result.parentId) {
+    const parent = await requestToPromise<ConversationRecord | undefined>(store.get(result.parentId));
+    rootId = parent ? parent.rootId : result.parentId;
+    const threadRecords = await requestToPromise<ConversationRecord[]>(store.index('rootId').getAll(rootId));
+    threadRecords.forEach(record => {
+      if (record.id === result.parentId) {
+        const value = {
+          ...record.value,
           replies: [
-            ...(parent.value.replies || []),
-            { 
+            ...(record.value.replies || []),
+            {
               id: result.id,
-              followUpQuery: result.followUpQuery 
-            }
+              followUpQuery: result.followUpQuery
+            } as SearchResult
           ]
         };
-        localStorage.setItem(
-          `${CONVERSATION_PREFIX}${result.parentId}`,
-          JSON.stringify({
-            ...parent,
-            value: updatedParent
-          })
-        );
+        store.put({ ...record, value, expires, lastAccessed: now, size: estimateRecordSize(value) });
+      } else {
+        store.put({ ...record, expires });
       }
+    });
+  }
+
+  const record: ConversationRecord = {
+    id: result.id,
+    value: result,
+    expires,
+    timestamp: now,
+    parentId: result.parentId,
+    rootId,
+    lastAccessed: now,
+    size: estimateRecordSize(result)
+  };
+  logger.log('CacheService: Created cache entry with timestamp:', new Date(record.timestamp).toISOString());
+  store.put(record);
+  await transactionDone(tx);
+  return rootId;
+};
+
+// Store individual results by their ID and maintain thread structure
+export const saveSearchResult = async (result: SearchResult): Promise<void> => {
+  try {
+    await ensureCacheReady();
+    logger.log('CacheService: Saving search result to cache:', result.id);
+    let rootId: string;
+    try {
+      rootId = await writeSearchResult(result);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      // Free space by dropping the least recently used thread, then retry once
+      logger.warn('CacheService: Storage quota exceeded, evicting least recently used thread');
+      const parentRecord = result.parentId ? await getConversationRecord(result.parentId) : undefined;
+      const protectedRootId = parentRecord?.rootId ?? result.id;
+      if (!(await evictLeastRecentlyUsedThread(protectedRootId))) throw error;
+      rootId = await writeSearchResult(result);
     }
+    await enforceCacheBudget(undefined, rootId);
   } catch (error) {
     logger.error('Cache write error:', error);
   }
@@ -58,49 +201,42 @@ export const saveSearchResult = async (result: SearchResult): Promise<void> => {
 // Get individual result by ID
 export const getSearchResult = async (id: string): Promise<SearchResult | null> => {
   try {
+    await ensureCacheReady();
     logger.log('CacheService: Getting search result from cache:', id);
-    const cached = localStorage.getItem(`${CONVERSATION_PREFIX}${id}`);
-    if (!cached) {
+    const record = await getConversationRecord(id);
+    if (!record) {
       logger.log('CacheService: No cached entry found for ID:', id);
       return null;
     }
 
-    const entry: CacheEntry = JSON.parse(cached);
-    logger.log('CacheService: Found cached entry with timestamp:', new Date(entry.timestamp).toISOString());
+    logger.log('CacheService: Found cached entry with timestamp:', new Date(record.timestamp).toISOString());
     
-    if (Date.now() > entry.expires) {
-      logger.log('CacheService: Cached entry expired, removing from cache');
-      localStorage.removeItem(`${CONVERSATION_PREFIX}${id}`);
+    if (isExpired(record)) {
+      logger.log('CacheService: Cached entry expired, removing its thread from cache');
+      await removeThreadIfExpired(record.rootId);
       return null;
     }
+    // Record the access for LRU eviction without delaying the read
+    touchConversationRecord(id, Date.now())
+      .catch(error => logger.error('CacheService: Failed to update last access time:', error));
     logger.log('CacheService: Returning cached result');
-    return entry.value;
+    return record.value;
   } catch (error) {
     logger.error('Cache read error:', error);
     return null;
   }
 };
 
-// Get all results in a conversation thread
 /**
  * Retrieves all search results from the cache.
  * @returns Promise that resolves to an array of all cached search results.
  */
 export const getAllSearchResults = async (): Promise<SearchResult[]> => {
   try {
-    const results: SearchResult[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith('conv_')) {
-        const cached = localStorage.getItem(key);
-        if (cached) {
-          const entry = JSON.parse(cached);
-          if (entry.value && Date.now() <= entry.expires) {
-            results.push(entry.value);
-          }
-        }
-      }
-    }
+    await ensureCacheReady();
+    const results = (await getAllConversationRecords())
+      .filter(record => !isExpired(record))
+      .map(record => record.value);
     logger.log('CacheService: Retrieved all search results from cache:', results.length, 'entries');
     return results;
   } catch (error) {
@@ -109,21 +245,27 @@ export const getAllSearchResults = async (): Promise<SearchResult[]> => {
   }
 };
 
+// Get all results in a conversation thread, starting at any result in it
 export const getConversationThread = async (rootId: string): Promise<SearchResult | null> => {
   try {
     const rootResult = await getSearchResult(rootId);
     if (!rootResult) return null;
 
+    // Load the whole thread through the rootId index in one read
+    const startRecord = await getConversationRecord(rootId);
+    const threadRecords = await getConversationRecordsByRoot(startRecord?.rootId || rootId);
+    const byId = new Map(
+      threadRecords.filter(record => !isExpired(record)).map(record => [record.id, record.value])
+    );
+
     // Recursively find all replies
-    const buildThread = async (result: SearchResult): Promise<SearchResult> => {
+    const buildThread = (result: SearchResult): SearchResult => {
       if (!result.replies || result.replies.length === 0) return result;
 
-      const populatedReplies = await Promise.all(
-        result.replies.map(async reply => {
-          const fullReply = await getSearchResult(reply.id);
-          return fullReply ? await buildThread(fullReply) : reply;
-        })
-      );
+      const populatedReplies = result.replies.map(reply => {
+        const fullReply = byId.get(reply.id);
+        return fullReply ? buildThread(fullReply) : reply;
+      });
 
       return {
         ...result,
@@ -131,36 +273,99 @@ export const getConversationThread = async (rootId: string): Promise<SearchResul
       };
     };
 
-    return await buildThread(rootResult);
+    return buildThread(rootResult);
   } catch (error) {
     logger.error('Thread build error:', error);
     return null;
   }
 };
 
-// Get all cached root conversations
-export const getAllRootConversations = async (): Promise<SearchResult[]> => {
+/**
+ * Returns the chain of results from the thread root down to the given result.
+ * @param id The ID of any result in a thread.
+ * @returns Promise resolving to the chain ordered root first, or an empty array when the result is not cached.
+ */
+export const getAncestorChain = async (id: string): Promise<SearchResult[]> => {
   try {
-    const results: SearchResult[] = [];
-    
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(CONVERSATION_PREFIX)) {
-        const cached = localStorage.getItem(key);
-        if (cached) {
-          const entry: CacheEntry = JSON.parse(cached);
-          if (Date.now() <= entry.expires && !entry.value.parentId) {
-            results.push(entry.value);
-          }
-        }
-      }
+    await ensureCacheReady();
+    const record = await getConversationRecord(id);
+    if (!record || isExpired(record)) return [];
+
+    const byId = new Map((await getConversationRecordsByRoot(record.rootId)).map(r => [r.id, r]));
+    const chain: SearchResult[] = [];
+    const seen = new Set<string>();
+    let current: ConversationRecord | undefined = record;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      chain.unshift(current.value);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
     }
+    return chain;
+  } catch (error) {
+    logger.error('Ancestor chain read error:', error);
+    return [];
+  }
+};
 
-    return results.sort((a, b) => {
-      const timestampA = typeof a.timestamp === 'number' ? a.timestamp : 0;
-      const timestampB = typeof b.timestamp === 'number' ? b.timestamp : 0;
-      return timestampB - timestampA;
+/**
+ * Re-keys a cached thread under a new root ID, updating its replies and any history items that point at it.
+ * Used to migrate threads stored under an older root ID scheme.
+ * @param oldRootId The thread's current root ID.
+ * @param newRootId The root ID to move the thread to.
+ * @returns Promise resolving to true when a thread was moved.
+ */
+export const renameThread = async (oldRootId: string, newRootId: string): Promise<boolean> => {
+  if (oldRootId === newRootId) return false;
+  try {
+    await ensureCacheReady();
+    const db = await openConversationDb();
+    const tx = db.transaction([CONVERSATION_STORE, HISTORY_STORE], 'readwrite');
+    const conversations = tx.objectStore(CONVERSATION_STORE);
+    const history = tx.objectStore(HISTORY_STORE);
+
+    const records = await requestToPromise<ConversationRecord[]>(conversations.index('rootId').getAll(oldRootId));
+    const existing = await requestToPromise<ConversationRecord | undefined>(conversations.get(newRootId));
+    if (records.length === 0 || existing) {
+      tx.abort();
+      return false;
+    }
+
+    const renameId = (id?: string) => (id === oldRootId ? newRootId : id);
+    records.forEach(record => {
+      if (record.id === oldRootId) conversations.delete(oldRootId);
+      const value = {
+        ...record.value,
+        id: renameId(record.value.id),
+        parentId: renameId(record.value.parentId)
+      };
+      conversations.put({ ...record, id: renameId(record.id), parentId: renameId(record.parentId), rootId: newRootId, value });
     });
+
+    const historyItems = await requestToPromise<HistoryRecord[]>(history.getAll());
+    historyItems
+      .filter(item => item.id === oldRootId || item.resultId === oldRootId)
+      .forEach(item => {
+        if (item.id === oldRootId) history.delete(oldRootId);
+        history.put({ ...item, id: renameId(item.id), resultId: renameId(item.resultId) });
+      });
+
+    await transactionDone(tx);
+    logger.log('CacheService: Moved cached thread to new root ID:', { oldRootId, newRootId });
+    return true;
+  } catch (error) {
+    logger.error('Thread rename error:', error);
+    return false;
+  }
+};
+
+// Get all cached root conversations, newest first
+export const getAllRootConversations = async (): Promise<SearchResult[]> => {
+  try {
+    await ensureCacheReady();
+    return (await getAllConversationRecords())
+      .filter(record => !isExpired(record) && !record.parentId)
+      .reverse()
+      .map(record => record.value);
   } catch (error) {
     logger.error('Cache read error:', error);
     return [];
@@ -169,12 +374,23 @@ export const getAllRootConversations = async (): Promise<SearchResult[]> => {
 
 export const saveSearchHistoryItem = async (item: SearchHistoryItem): Promise<void> => {
   try {
-    const history = await getSearchHistory();
-    const updatedHistory = [
-      item,
-      ...history.filter(h => h.id !== item.id) // Prevent duplicates
-    ].slice(0, 50); // Keep only last 50 items
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(updatedHistory));
+    await ensureCacheReady();
+    const db = await openConversationDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+
+    // Asking a query again replaces its earlier entry and keeps its pin
+    const history = await requestToPromise<HistoryRecord[]>(store.index('timestamp').getAll());
+    const previous = history.filter(record => record.id === item.id || record.query === item.query);
+    const pinned = item.pinned ?? previous.some(record => record.pinned);
+    previous.forEach(record => store.delete(record.id));
+    store.put({ ...item, pinned });
+
+    // Keep only the most recent unpinned items; the new item is the newest
+    const unpinned = history.filter(record => !record.pinned && !previous.includes(record));
+    if (!pinned) unpinned.push(item);
+    unpinned.slice(0, Math.max(0, unpinned.length - MAX_HISTORY_ITEMS)).forEach(record => store.delete(record.id));
+    await transactionDone(tx);
   } catch (error) {
     logger.error('History save error:', error);
   }
@@ -182,17 +398,91 @@ export const saveSearchHistoryItem = async (item: SearchHistoryItem): Promise<vo
 
 export const getSearchHistory = async (): Promise<SearchHistoryItem[]> => {
   try {
-    const history = localStorage.getItem(HISTORY_KEY);
-    return history ? JSON.parse(history) : [];
+    await ensureCacheReady();
+    const db = await openConversationDb();
+    const tx = db.transaction(HISTORY_STORE, 'readonly');
+    const history = await requestToPromise<HistoryRecord[]>(tx.objectStore(HISTORY_STORE).index('timestamp').getAll());
+    return history.reverse();
   } catch (error) {
     logger.error('History read error:', error);
     return [];
   }
 };
 
+/**
+ * Pins or unpins a history item. Pinned items do not count towards the history limit.
+ * @param id The history item ID.
+ * @param pinned Whether the item should be pinned.
+ */
+export const setSearchHistoryItemPinned = async (id: string, pinned: boolean): Promise<void> => {
+  try {
+    await ensureCacheReady();
+    const db = await openConversationDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    const record = await requestToPromise<HistoryRecord | undefined>(store.get(id));
+    if (record) store.put({ ...record, pinned });
+    await transactionDone(tx);
+  } catch (error) {
+    logger.error('History pin error:', error);
+  }
+};
+
+/**
+ * Deletes a history item together with its cached thread. Older entries for the same query,
+ * which the history panel shows as one item, are deleted as well.
+ * @param id The history item ID.
+ */
+export const deleteSearchHistoryItem = async (id: string): Promise<void> => {
+  try {
+    await ensureCacheReady();
+    const db = await openConversationDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    const history = await requestToPromise<HistoryRecord[]>(store.getAll());
+    const target = history.find(record => record.id === id);
+    const removed = target ? history.filter(record => record.query === target.query) : [];
+    removed.forEach(record => store.delete(record.id));
+    await transactionDone(tx);
+
+    const threads = await Promise.all(removed.map(record => getConversationRecordsByRoot(record.resultId)));
+    await deleteConversationRecords(threads.flat().map(record => record.id));
+  } catch (error) {
+    logger.error('History delete error:', error);
+  }
+};
+
+/**
+ * Finds history items whose query, or any answer or follow-up in their cached thread, contains the text.
+ * Matching ignores case, punctuation and repeated whitespace.
+ * @param items The history items to filter.
+ * @param text The text to look for.
+ * @returns The IDs of the matching items.
+ */
+export const searchHistoryContent = async (items: SearchHistoryItem[], text: string): Promise<Set<string>> => {
+  const needle = normalizeQuery(text);
+  if (!needle) return new Set(items.map(item => item.id));
+
+  const threadText = new Map<string, string>();
+  try {
+    await ensureCacheReady();
+    (await getAllConversationRecords()).forEach(({ rootId, value }) => {
+      const recordText = [value.query, value.followUpQuery, value.title, value.content].filter(Boolean).join(' ');
+      threadText.set(rootId, `${threadText.get(rootId) || ''} ${recordText}`);
+    });
+  } catch (error) {
+    logger.error('History search error:', error);
+  }
+
+  return new Set(items
+    .filter(item => normalizeQuery(`${item.query} ${threadText.get(item.resultId) || ''}`).includes(needle))
+    .map(item => item.id));
+};
+
 export const clearSearchHistory = async (): Promise<void> => {
   try {
-    localStorage.removeItem(HISTORY_KEY);
+    await ensureCacheReady();
+    await clearStore(HISTORY_STORE);
   } catch (error) {
     logger.error('History clear error:', error);
   }
@@ -206,22 +496,13 @@ interface CacheEntryForSync {
 
 export const getAllCacheEntries = async (): Promise<CacheEntryForSync[]> => {
   try {
+    await ensureCacheReady();
     logger.log('CacheService: Getting all cache entries for sync');
-    const entries: CacheEntryForSync[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('conv_')) {
-        try {
-          const item = JSON.parse(localStorage.getItem(key) || '{}') as CacheEntryForSync;
-          if (item.value && item.timestamp) {
-            logger.log('CacheService: Found valid cache entry:', key, 'with timestamp:', new Date(item.timestamp).toISOString());
-            entries.push(item);
-          }
-        } catch (e) {
-          logger.error('Error parsing cache entry from localStorage:', e);
-        }
-      }
-    }
+    const entries: CacheEntryForSync[] = (await getAllConversationRecords()).map(record => ({
+      value: record.value,
+      expires: record.expires,
+      timestamp: record.timestamp
+    }));
     logger.log('CacheService: Total valid cache entries found:', entries.length);
     return entries;
   } catch (error) {
@@ -232,11 +513,8 @@ export const getAllCacheEntries = async (): Promise<CacheEntryForSync[]> => {
 
 export const clearCache = async (): Promise<void> => {
   try {
-    Object.keys(localStorage).forEach(key => {
-      if (key.startsWith(CONVERSATION_PREFIX)) {
-        localStorage.removeItem(key);
-      }
-    });
+    await ensureCacheReady();
+    await clearStore(CONVERSATION_STORE);
   } catch (error) {
     logger.error('Cache clear error:', error);
   }
@@ -250,12 +528,13 @@ export const clearCache = async (): Promise<void> => {
 // Removed duplicate SHA512 implementation - using hashUtils.ts
 
 /**
- * Normalizes a query string for comparison.
+ * Normalizes a query string for comparison: lowercases, strips punctuation
+ * (keeping letters and digits in any script) and collapses whitespace.
  * @param query The query string to normalize.
  * @returns Normalized query string.
  */
-const normalizeQuery = (query: string): string => {
-  return query.toLowerCase().trim().replace(/[^\w\s]/g, '');
+export const normalizeQuery = (query: string): string => {
+  return query.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
 };
 
 /**
@@ -337,79 +616,12 @@ export const fetchCachedResultsWithRetry = async (
       logger.log('Using hash from similar history item:', targetHash);
     }
 
-    // Import Supabase client dynamically to avoid circular dependencies
-    const { supabase } = await import('../lib/supabase');
-
-    let attempt = 0;
-    let results: SearchResult[] = [];
-    while (attempt < maxRetries && results.length === 0) {
-      attempt++;
-      logger.log(`Attempt ${attempt} to fetch cached results for hash:`, targetHash);
-      try {
-        const { data: cachedQueryResults, error } = await supabase
-          .from('cachedQueryResults')
-          .select('cache_id')
-          .eq('user_id', userId)
-          .eq('user_query_hash', targetHash);
-
-        if (error) {
-          logger.error(`Error fetching cachedQueryResults (attempt ${attempt}):`, error.message);
-        } else if (cachedQueryResults && cachedQueryResults.length > 0) {
-          logger.log(`Found ${cachedQueryResults.length} cached query results on attempt ${attempt}.`);
-          const cacheIds = cachedQueryResults.map(r => r.cache_id);
-          const { data: cacheData, error: cacheError } = await supabase
-            .from('cache')
-            .select('id, cache_user_result')
-            .in('id', cacheIds);
-
-          if (cacheError) {
-            logger.error('Error fetching cache data:', cacheError.message);
-          } else if (cacheData && cacheData.length > 0) {
-            const userResultIds = cacheData.map(c => c.cache_user_result);
-            const { data: userResults, error: userResultsError } = await supabase
-              .from('cacheUserResults')
-              .select('*')
-              .in('id', userResultIds)
-              .limit(5); // Limit to top 5 results
-
-            if (userResultsError) {
-              logger.error('Error fetching cacheUserResults:', userResultsError.message);
-            } else if (userResults && userResults.length > 0) {
-              results = userResults.map((ur, index) => ({
-                id: `cached-${ur.id}-${index}`,
-                query: ur.query || query,
-                content: ur.content,
-                title: ur.query || 'Cached Result',
-                sources: ur.sources || [],
-                timestamp: ur.updated_at ? new Date(ur.updated_at).getTime() : Date.now(),
-                isLoading: false,
-                isCached: true,
-                replies: [],
-                parentId: ur.parent_id || '',
-                rootId: ur.root_id || '',
-                followUpQuery: ur.followUpQuery || '',
-                confidence: 0.9, // Default confidence for cached results
-                category: 'cached'
-              }));
-              logger.log(`Retrieved ${results.length} cached results from Supabase.`);
-              return results;
-            }
-          }
-        }
-      } catch (error) {
-        logger.error(`Unexpected error fetching cached results (attempt ${attempt}):`, error);
-      }
-
-      if (results.length === 0 && attempt < maxRetries) {
-        const delay = initialDelay * Math.pow(2, attempt - 1); // Exponential backoff
-        logger.log(`No results found. Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-
-    if (results.length === 0) {
-      logger.log('No cached results found after all retry attempts.');
-    }
+    // Same tables, retry policy and mapping as the similarity lookup
+    const rows = await findCachedResultsByQueryHash(userId, targetHash, {
+      policy: { maxAttempts: maxRetries, initialDelay },
+    });
+    const results = rows.map(row => toCachedSearchResult(row, query));
+    logger.log(`Retrieved ${results.length} cached results from Supabase.`);
     return results;
   } catch (error) {
     logger.error('Error in fetchCachedResultsWithRetry:', error);
@@ -1,160 +1,172 @@
 import { logger } from '../utils/logger';
 import { sha512 } from '../utils/hashUtils';
-import { supabase } from '../lib/supabase';
+import { AppError } from '../lib/appError';
+import {
+  CacheRepositoryError,
+  findCachedResultsByQueryHash,
+  matchCachedResults,
+  toCachedSearchResult,
+  MAX_CACHED_RESULTS,
+  type CachedAnswerRow,
+} from '../lib/cacheRepository';
 import type { SearchResult } from '../types/search';
 
 // Define interfaces for data structures
 interface CacheSimilarityParams {
   query: string;
   userId: string;
+  threshold?: number; // Minimum similarity (0-1) for a cached result to be returned
+  signal?: AbortSignal;
 }
 
-interface CachedQueryResult {
-  id: number;
-  cache_id: number;
-  user_query_hash: string;
-}
+// 'rpc' ranks cached results with pgvector in one call; 'webhook' is the original Make.com flow
+type SimilarityMode = 'rpc' | 'webhook';
 
-interface CacheEntry {
-  id: number;
-  cache_user_result: number;
+class CacheSimilarityError extends AppError {
+  name = 'CacheSimilarityError';
 }
 
-// Custom Error for the service
-class CacheSimilarityError extends Error {
-  constructor(public code: string, message: string, public context?: object) {
-    super(message);
-    this.name = 'CacheSimilarityError';
+// Minimum cosine similarity for a cached match, unless the user picks another in settings
+const envThreshold = Number(import.meta.env.VITE_CACHE_SIMILARITY_THRESHOLD);
+export const DEFAULT_SIMILARITY_THRESHOLD = envThreshold > 0 && envThreshold <= 1 ? envThreshold : 0.8;
+
+const SIMILARITY_MODE: SimilarityMode =
+  import.meta.env.VITE_CACHE_SIMILARITY_MODE === 'webhook' ? 'webhook' : 'rpc';
+
+/**
+ * Generates the embedding of a query with the configured embedding endpoint.
+ * It must use the same model that produced the `cache.embeddings` column.
+ * @param query - The user's query.
+ * @param signal - Optional signal that cancels the request.
+ * @returns A promise that resolves to the query embedding.
+ */
+async function fetchQueryEmbedding(query: string, signal?: AbortSignal): Promise<number[]> {
+  const response = await fetch(import.meta.env.VITE_CACHE_EMBEDDING_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ input: query }),
+    signal,
+  });
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new CacheSimilarityError('EMBEDDING-500', `Embedding request failed: ${response.status} - ${errorBody}`);
+  }
+  const { embedding } = await response.json() as { embedding?: number[] };
+  if (!Array.isArray(embedding) || embedding.length === 0) {
+    throw new CacheSimilarityError('EMBEDDING-500', 'Embedding response did not contain a vector');
   }
+  return embedding;
 }
 
-// Constants for polling
-const SIMILARITY_POLL_INTERVAL = 1000; // 1 second
-const MAX_POLL_ATTEMPTS = 5;
-
 /**
- * Fetches cached query results from Supabase.
- * @param userId - The user's unique identifier.
- * @param queryHash - The SHA512 hash of the user's query.
- * @returns A promise that resolves to the query results.
+ * Maps cacheUserResults rows to cached SearchResults, most similar first. Rows scored below
+ * the threshold are dropped; rows without a score (from the webhook) are kept after scored ones.
+ * @param rows - The rows to map.
+ * @param query - The user's query, used when a row has none.
+ * @param threshold - The minimum similarity to keep a row.
+ * @returns The top search results.
  */
-async function fetchCachedQueryResults(userId: string, queryHash: string) {
-  return supabase
-    .from('cachedQueryResults')
-    .select('id, cache_id, user_query_hash')
-    .eq('user_id', userId)
-    .eq('user_query_hash', queryHash);
+function rankCachedResults(rows: CachedAnswerRow[], query: string, threshold: number): SearchResult[] {
+  return rows
+    .filter(row => typeof row.similarity !== 'number' || row.similarity >= threshold)
+    .sort((a, b) => (b.similarity ?? -1) - (a.similarity ?? -1))
+    .slice(0, MAX_CACHED_RESULTS)
+    .map(row => toCachedSearchResult(row, query));
 }
 
 /**
- * Fetches full cache entries from Supabase.
- * @param cacheIds - An array of cache IDs to fetch.
- * @returns A promise that resolves to the cache entries.
+ * Finds the user's similar cached results: one call embeds the query, then one pgvector RPC
+ * returns their rows ranked by similarity.
+ * @param params - The query, user ID, threshold and optional cancellation signal.
+ * @returns A promise that resolves to the ranked search results.
  */
-async function fetchCacheEntries(cacheIds: number[]) {
-  return supabase
-    .from('cache')
-    .select('id, cache_user_result')
-    .in('id', cacheIds);
+async function findSimilarViaRpc({ query, userId, threshold, signal }: CacheSimilarityParams): Promise<SearchResult[]> {
+  const embedding = await fetchQueryEmbedding(query, signal);
+  const rows = await matchCachedResults(userId, embedding, threshold, signal);
+  return rankCachedResults(rows, query, threshold);
 }
 
 /**
- * Fetches the final user-facing search results.
- * @param userResultIds - An array of user result IDs to fetch.
+ * Finds similar cached results through the webhook: trigger it, poll `cachedQueryResults`,
+ * then walk `cache` to `cacheUserResults`.
+ * @param params - The query and user ID.
  * @returns A promise that resolves to the search results.
  */
-async function fetchUserResults(userResultIds: number[]) {
-  return supabase
-    .from('cacheUserResults')
-    .select('id, content, sources, query, created_at')
-    .in('id', userResultIds);
+async function findSimilarViaWebhook({ query, userId, threshold, signal }: CacheSimilarityParams): Promise<SearchResult[]> {
+  const queryHash = await sha512(query);
+  const webhookUrl = import.meta.env.VITE_CACHE_SIMILARITY_QUERY;
+  const apiKey = import.meta.env.VITE_CACHE_SIMILARITY_API_KEY;
+
+  // 1. Trigger the webhook to start the similarity search process
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-make-apikey': apiKey },
+    body: JSON.stringify({ query, content: `Search query: ${query}`, user_id: userId, query_hash: queryHash }),
+    signal,
+  });
+  if (!response.ok) {
+    const errorBody = await response.text();
+    const errorMessage = `Webhook failed: ${response.status} - ${errorBody}`;
+    logger.error(errorMessage);
+    throw new CacheSimilarityError('WEBHOOK-500', errorMessage);
+  }
+
+  // 2. Poll for the rows the webhook writes, then walk cache to cacheUserResults
+  const userResults = await findCachedResultsByQueryHash(userId, queryHash, { signal });
+
+  // 3. Format and return the top 5 results
+  return rankCachedResults(userResults, query, threshold);
 }
 
 /**
- * Polls for cached results with exponential backoff.
- * @param userId - The user's unique identifier.
- * @param queryHash - The SHA512 hash of the user's query.
- * @returns A promise that resolves to the cached results or an error.
+ * Logs a lookup failure; cancellations are expected and only noted.
+ * @param error - The error thrown by the lookup.
+ * @param signal - The lookup's signal.
  */
-async function pollForCachedResults(userId: string, queryHash: string): Promise<{ data: CachedQueryResult[] | null; error: Error | null }> {
-  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
-    try {
-      const { data, error } = await fetchCachedQueryResults(userId, queryHash);
-      if (error) throw new CacheSimilarityError('CACHE-500', 'Failed to poll for results', { originalError: error });
-      if (data && data.length > 0) return { data, error: null };
-      await new Promise(resolve => setTimeout(resolve, SIMILARITY_POLL_INTERVAL * Math.pow(2, attempt)));
-    } catch (error) {
-      logger.error('Polling attempt failed:', { attempt, error });
-    }
+function logSimilarityError(error: unknown, signal?: AbortSignal) {
+  if (signal?.aborted) {
+    logger.log('Cache similarity lookup cancelled by the user.');
+  } else if (error instanceof CacheSimilarityError || error instanceof CacheRepositoryError) {
+    logger.error(`Cache Similarity Error: ${error.code}`, { message: error.message, context: error.context });
+  } else {
+    logger.error('An unexpected error occurred in the cache similarity service:', error);
   }
-  return { data: null, error: new CacheSimilarityError('CACHE-404', 'Polling timed out') };
 }
 
 /**
- * Main service function to find similar cached results.
- * @param params - The query and user ID.
- * @returns A promise that resolves to an array of search results.
+ * Main service function to find similar cached results. Uses the pgvector RPC by default and
+ * falls back to the webhook flow when the RPC is unavailable or `VITE_CACHE_SIMILARITY_MODE=webhook`.
+ * @param params - The query, user ID and optional similarity threshold.
+ * @returns A promise that resolves to an array of search results at or above the threshold.
  */
-export const findSimilarCachedResults = async ({ query, userId }: CacheSimilarityParams): Promise<SearchResult[]> => {
-  const queryHash = await sha512(query);
-  const webhookUrl = import.meta.env.VITE_CACHE_SIMILARITY_QUERY;
-  const apiKey = import.meta.env.VITE_CACHE_SIMILARITY_API_KEY;
+export const findSimilarCachedResults = async ({
+  query,
+  userId,
+  threshold = DEFAULT_SIMILARITY_THRESHOLD,
+  signal,
+}: CacheSimilarityParams): Promise<SearchResult[]> => {
+  const rpcConfigured = Boolean(import.meta.env.VITE_CACHE_EMBEDDING_URL);
+  const webhookConfigured = Boolean(import.meta.env.VITE_CACHE_SIMILARITY_QUERY && import.meta.env.VITE_CACHE_SIMILARITY_API_KEY);
+
+  if (SIMILARITY_MODE === 'rpc' && rpcConfigured) {
+    try {
+      return await findSimilarViaRpc({ query, userId, threshold, signal });
+    } catch (error) {
+      logSimilarityError(error, signal);
+      if (signal?.aborted || !webhookConfigured) return [];
+      logger.warn('Falling back to the cache similarity webhook.');
+    }
+  }
 
-  if (!webhookUrl || !apiKey) {
+  if (!webhookConfigured) {
     logger.warn('Cache similarity service is not configured.');
     return [];
   }
 
   try {
-    // 1. Trigger the webhook to start the similarity search process
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-make-apikey': apiKey },
-      body: JSON.stringify({ query, content: `Search query: ${query}`, user_id: userId, query_hash: queryHash }),
-    });
-    if (!response.ok) {
-      const errorBody = await response.text();
-      const errorMessage = `Webhook failed: ${response.status} - ${errorBody}`;
-      logger.error(errorMessage);
-      throw new CacheSimilarityError('WEBHOOK-500', errorMessage);
-    }
-
-    // 2. Poll for the results
-    const { data: cachedResults, error: pollError } = await pollForCachedResults(userId, queryHash);
-    if (pollError) throw pollError;
-    if (!cachedResults || cachedResults.length === 0) return [];
-
-    // 3. Fetch the corresponding cache entries
-    const cacheIds = cachedResults.map(r => r.cache_id);
-    const { data: cacheEntries, error: entriesError } = await fetchCacheEntries(cacheIds);
-    if (entriesError) throw new CacheSimilarityError('CACHE-500', 'Failed to fetch cache entries', { originalError: entriesError });
-    if (!cacheEntries) return [];
-
-    // 4. Fetch the final user results
-    const userResultIds = cacheEntries.map(e => e.cache_user_result);
-    const { data: userResults, error: resultsError } = await fetchUserResults(userResultIds);
-    if (resultsError) throw new CacheSimilarityError('CACHE-500', 'Failed to fetch user results', { originalError: resultsError });
-    if (!userResults) return [];
-
-    // 5. Format and return the top 5 results
-    return userResults.slice(0, 5).map(result => ({
-      id: `cached-${result.id}`,
-      query: result.query || query,
-      title: `Cached Result for: ${result.query || query}`,
-      content: result.content,
-      sources: result.sources || [],
-      timestamp: new Date(result.created_at).getTime(),
-      isCached: true,
-      confidence: 0.9, // High confidence for cached results
-      category: 'Cached',
-    }));
-
+    return await findSimilarViaWebhook({ query, userId, threshold, signal });
   } catch (error) {
-    if (error instanceof CacheSimilarityError) {
-      logger.error(`Cache Similarity Error: ${error.code}`, { message: error.message, context: error.context });
-    } else {
-      logger.error('An unexpected error occurred in the cache similarity service:', error);
-    }
+    logSimilarityError(error, signal);
     return []; // Return empty array on error to prevent blocking the UI
   }
 };
@@ -0,0 +1,125 @@
+import type { ChatMessage, SearchResult } from '../types/search';
+
+// Approximate token budget for the conversation history sent with a follow-up
+export const CONTEXT_TOKEN_BUDGET = Number(import.meta.env.VITE_CONTEXT_TOKEN_BUDGET) || 3000;
+
+// Length of an abridged answer inside the summary of older turns
+const SUMMARY_ANSWER_LENGTH = 200;
+
+interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Estimates the token count of a string using the common ~4 characters per token heuristic.
+ * @param text - The text to measure.
+ * @returns The estimated number of tokens.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Recovers the question that produced a result.
+ * @param result - A root result or follow-up reply.
+ * @returns The user's question for that turn.
+ */
+const questionFor = (result: SearchResult): string =>
+  result.followUpQuery || result.query || result.title.replace(/^SearchGPT:\s*/, '');
+
+/**
+ * Shortens an answer for the summary by dropping citations and markdown and cutting at a word boundary.
+ * @param answer - The full answer text.
+ * @returns The abridged answer.
+ */
+const abridge = (answer: string): string => {
+  const plain = answer
+    .replace(/\[\d+\]/g, '')
+    .replace(/[*_#>`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (plain.length <= SUMMARY_ANSWER_LENGTH) return plain;
+  const cut = plain.slice(0, SUMMARY_ANSWER_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}...`;
+};
+
+/**
+ * Orders the turns that precede a follow-up: the ancestor chain from the root down to the
+ * parent, followed by earlier replies to that parent (rendered in the UI as one conversation).
+ * @param ancestors - Results from the thread root down to the parent, root first.
+ * @param parent - The result being followed up, with its replies populated.
+ * @returns The turns oldest first.
+ */
+const collectTurns = (ancestors: SearchResult[], parent: SearchResult): ConversationTurn[] => {
+  const chain = ancestors.length > 0 ? ancestors : [parent];
+  const earlierReplies = (parent.replies || [])
+    .filter(reply => reply.content && !reply.isStreaming && !reply.isFallback)
+    .sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+
+  return [...chain, ...earlierReplies]
+    .filter(result => result.content)
+    .map(result => ({ question: questionFor(result), answer: result.content }));
+};
+
+/**
+ * Builds the chat messages for a follow-up question. The most recent turns are sent verbatim;
+ * older turns that do not fit the token budget are folded into a single abridged summary.
+ * @param systemPrompt - The follow-up system prompt.
+ * @param ancestors - Results from the thread root down to the parent, root first.
+ * @param parent - The result being followed up.
+ * @param query - The new follow-up question.
+ * @param tokenBudget - Approximate token budget for the whole request.
+ * @returns The messages array, ending with the new question.
+ */
+export const buildFollowUpMessages = (
+  systemPrompt: string,
+  ancestors: SearchResult[],
+  parent: SearchResult,
+  query: string,
+  tokenBudget: number = CONTEXT_TOKEN_BUDGET
+): ChatMessage[] => {
+  const turns = collectTurns(ancestors, parent);
+  let remaining = tokenBudget - estimateTokens(systemPrompt) - estimateTokens(query);
+
+  // Keep the newest turns verbatim while they fit
+  const verbatim: ChatMessage[] = [];
+  let splitIndex = turns.length;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].question) + estimateTokens(turns[i].answer);
+    if (cost > remaining) break;
+    verbatim.unshift(
+      { role: 'user', content: turns[i].question },
+      { role: 'assistant', content: turns[i].answer }
+    );
+    remaining -= cost;
+    splitIndex = i;
+  }
+
+  // Summarise the rest, dropping the oldest lines if even the summary is too long
+  const summaryLines = turns
+    .slice(0, splitIndex)
+    .map(turn => `- Q: ${turn.question}\n  A: ${abridge(turn.answer)}`);
+  while (summaryLines.length > 0 && estimateTokens(summaryLines.join('\n')) > remaining) {
+    summaryLines.shift();
+  }
+
+  const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+  if (summaryLines.length > 0) {
+    messages.push({ role: 'system', content: `Summary of earlier conversation:\n${summaryLines.join('\n')}` });
+  }
+  messages.push(...verbatim, { role: 'user', content: query });
+  return messages;
+};
+
+/**
+ * Flattens chat messages into a single prompt for endpoints that only accept a `query` string.
+ * @param messages - The messages built by `buildFollowUpMessages`.
+ * @returns The transcript without the leading system prompt.
+ */
+export const flattenMessages = (messages: ChatMessage[]): string =>
+  messages
+    .slice(1)
+    .map(message => {
+      if (message.role === 'system') return message.content;
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+    })
+    .join('\n\n');
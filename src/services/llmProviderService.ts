@@ -0,0 +1,194 @@
+import type { ChatMessage, SearchResult } from '../types/search';
+import { AppError } from '../lib/appError';
+
+// Everything a provider needs to build a completion request
+export interface LlmRequest {
+  query: string; // Single-string prompt for endpoints without chat support
+  systemPrompt: string;
+  messages: ChatMessage[];
+  stream: boolean;
+}
+
+// A model answer before it is turned into a SearchResult by the search service.
+// `sources` is whatever the provider returned alongside the content, normalized later.
+export type LlmAnswer = Pick<SearchResult, 'title' | 'content'> & Partial<Pick<SearchResult, 'confidence' | 'category'>> & {
+  sources?: unknown;
+};
+
+// One incremental update parsed from a streamed response
+export interface LlmStreamEvent {
+  delta?: string;
+  title?: string;
+  confidence?: number;
+  category?: string;
+  done?: boolean;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  buildRequest: (request: LlmRequest) => { url: string; init: RequestInit };
+  parseResponse: (data: unknown, request: LlmRequest) => LlmAnswer[];
+  parseStreamEvent: (event: unknown) => LlmStreamEvent | null;
+  mapError: (status: number, body: string) => LlmProviderError;
+}
+
+export type LlmProviderId = 'edge-function' | 'openai' | 'ollama';
+
+export class LlmProviderError extends AppError {
+  name = 'LlmProviderError';
+}
+
+const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson, application/json';
+
+// Keys entered in Settings. `VITE_` variables are inlined into the public bundle, so secrets never come from the build
+const OPENAI_API_KEY_STORAGE_KEY = 'searchGptOpenAiApiKey';
+
+/**
+ * Reads the OpenAI-compatible API key the user entered in this browser.
+ * @returns The key, or an empty string when none is set (e.g. behind a proxy that adds it).
+ */
+export const getOpenAiApiKey = (): string => {
+  try {
+    return localStorage.getItem(OPENAI_API_KEY_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Stores or, when empty, removes the OpenAI-compatible API key for this browser.
+ * @param apiKey - The key entered by the user.
+ */
+export const setOpenAiApiKey = (apiKey: string): void => {
+  const trimmed = apiKey.trim();
+  if (trimmed) localStorage.setItem(OPENAI_API_KEY_STORAGE_KEY, trimmed);
+  else localStorage.removeItem(OPENAI_API_KEY_STORAGE_KEY);
+};
+
+/**
+ * Maps common HTTP failures to structured provider errors.
+ * @param provider - The provider label used in messages.
+ * @param status - The HTTP status code.
+ * @param body - The response body text.
+ * @returns The corresponding LlmProviderError.
+ */
+function mapHttpError(provider: string, status: number, body: string): LlmProviderError {
+  const context = { provider, status, body };
+  if (status === 401 || status === 403) return new LlmProviderError('LLM-401', `${provider} rejected the credentials`, context);
+  if (status === 404) return new LlmProviderError('LLM-404', `${provider} endpoint or model not found`, context);
+  if (status === 429) return new LlmProviderError('LLM-429', `${provider} rate limit exceeded`, context);
+  return new LlmProviderError('LLM-500', `${provider} server error: ${status}`, context);
+}
+
+/**
+ * Derives a short title for providers that only return message text.
+ * @param request - The original request.
+ * @returns The last user message, used as the answer title.
+ */
+function titleFromRequest(request: LlmRequest): string {
+  const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+  return lastUserMessage?.content || request.query;
+}
+
+// The Supabase edge function that proxies DeepSeek (the original integration, ADR-001)
+const edgeFunctionProvider: LlmProvider = {
+  id: 'edge-function',
+  label: 'DeepSeek (Supabase)',
+  isConfigured: () => Boolean(import.meta.env.VITE_SUPABASE_EDGE_FUNCTION_URL),
+  buildRequest: ({ query, systemPrompt, messages, stream }) => ({
+    url: import.meta.env.VITE_SUPABASE_EDGE_FUNCTION_URL,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': stream ? STREAM_ACCEPT : 'application/json' },
+      body: JSON.stringify({ query, systemPrompt, messages, stream }),
+    },
+  }),
+  parseResponse: (data) => (data as { results?: LlmAnswer[] }).results || [],
+  parseStreamEvent: (event) => event as LlmStreamEvent,
+  mapError: (status, body) => mapHttpError('Edge function', status, body),
+};
+
+// Any OpenAI-compatible chat-completions endpoint (OpenAI, DeepSeek, OpenRouter, vLLM, ...)
+const openAiProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  isConfigured: () => Boolean(import.meta.env.VITE_OPENAI_BASE_URL && import.meta.env.VITE_OPENAI_MODEL),
+  buildRequest: ({ messages, stream }) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Accept': stream ? STREAM_ACCEPT : 'application/json' };
+    const apiKey = getOpenAiApiKey();
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    return {
+      url: `${String(import.meta.env.VITE_OPENAI_BASE_URL).replace(/\/$/, '')}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: import.meta.env.VITE_OPENAI_MODEL, messages, stream }),
+      },
+    };
+  },
+  parseResponse: (data, request) => {
+    const content = (data as { choices?: { message?: { content?: string } }[] }).choices?.[0]?.message?.content;
+    return content ? [{ title: titleFromRequest(request), content }] : [];
+  },
+  parseStreamEvent: (event) => {
+    const choice = (event as { choices?: { delta?: { content?: string }; finish_reason?: string | null }[] }).choices?.[0];
+    if (!choice) return null;
+    return { delta: choice.delta?.content, done: Boolean(choice.finish_reason) };
+  },
+  mapError: (status, body) => mapHttpError('OpenAI-compatible endpoint', status, body),
+};
+
+// A local Ollama-style server exposing /api/chat
+const ollamaProvider: LlmProvider = {
+  id: 'ollama',
+  label: 'Local (Ollama)',
+  isConfigured: () => Boolean(import.meta.env.VITE_OLLAMA_MODEL),
+  buildRequest: ({ messages, stream }) => ({
+    url: `${String(import.meta.env.VITE_OLLAMA_URL || 'http://localhost:11434').replace(/\/$/, '')}/api/chat`,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': stream ? STREAM_ACCEPT : 'application/json' },
+      body: JSON.stringify({ model: import.meta.env.VITE_OLLAMA_MODEL, messages, stream }),
+    },
+  }),
+  parseResponse: (data, request) => {
+    const content = (data as { message?: { content?: string } }).message?.content;
+    return content ? [{ title: titleFromRequest(request), content }] : [];
+  },
+  parseStreamEvent: (event) => {
+    const chunk = event as { message?: { content?: string }; done?: boolean };
+    return { delta: chunk.message?.content, done: chunk.done };
+  },
+  mapError: (status, body) => mapHttpError('Ollama server', status, body),
+};
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  'edge-function': edgeFunctionProvider,
+  'openai': openAiProvider,
+  'ollama': ollamaProvider,
+};
+
+export const DEFAULT_PROVIDER_ID: LlmProviderId =
+  (import.meta.env.VITE_LLM_PROVIDER as LlmProviderId) in PROVIDERS
+    ? (import.meta.env.VITE_LLM_PROVIDER as LlmProviderId)
+    : 'edge-function';
+
+/**
+ * Returns the providers that have the environment variables they need.
+ * @returns The configured providers, in display order.
+ */
+export const getAvailableProviders = (): LlmProvider[] =>
+  Object.values(PROVIDERS).filter(provider => provider.isConfigured());
+
+/**
+ * Resolves a provider by ID, falling back to the environment default.
+ * @param id - The requested provider ID, e.g. from the UI.
+ * @returns The provider to use for the request.
+ */
+export const getProvider = (id?: string): LlmProvider => {
+  const requested = id ? PROVIDERS[id as LlmProviderId] : undefined;
+  if (requested?.isConfigured()) return requested;
+  return PROVIDERS[DEFAULT_PROVIDER_ID];
+};
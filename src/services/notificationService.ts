@@ -0,0 +1,100 @@
+import { logger } from '../utils/logger';
+import { requestServiceWorker, updateSyncConfig } from '../utils/serviceWorkerClient';
+import { threadUrl } from '../lib/notifications';
+import type { SearchResult } from '../types/search';
+
+// Answers that take at least this long (in milliseconds) are announced if the tab is hidden meanwhile
+export const LONG_ANSWER_THRESHOLD = 10000;
+
+const PUSH_PUBLIC_KEY = import.meta.env.VITE_PUSH_PUBLIC_KEY;
+const PUSH_SUBSCRIPTION_URL = import.meta.env.VITE_PUSH_SUBSCRIPTION_URL;
+
+/**
+ * Reports whether this browser can show notifications from the Service Worker.
+ */
+export const notificationsSupported = (): boolean =>
+  typeof Notification !== 'undefined' && 'serviceWorker' in navigator;
+
+// VAPID keys are distributed as URL-safe base64
+const decodeApplicationServerKey = (key: string): Uint8Array => {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+/**
+ * Subscribes to the push service and registers the subscription with the push server.
+ * Skipped unless both `VITE_PUSH_PUBLIC_KEY` and `VITE_PUSH_SUBSCRIPTION_URL` are set; answers
+ * finished in this browser are announced through `LOCAL_PUSH` either way.
+ */
+const subscribeToPush = async () => {
+  if (!PUSH_PUBLIC_KEY || !PUSH_SUBSCRIPTION_URL) return;
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    || await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeApplicationServerKey(PUSH_PUBLIC_KEY),
+    });
+  const response = await fetch(PUSH_SUBSCRIPTION_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription),
+  });
+  if (!response.ok) throw new Error(`Push subscription was rejected with status ${response.status}`);
+};
+
+/**
+ * Asks for permission to notify and, once granted, opts in to answer notifications.
+ * A failed push subscription is logged and does not undo the opt-in.
+ * @returns The browser's notification permission after asking.
+ */
+export const enableNotifications = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission;
+
+  try {
+    await subscribeToPush();
+  } catch (error) {
+    logger.error('Notifications: Could not subscribe to push messages.', error);
+  }
+  await updateSyncConfig({ notifications: true });
+  return permission;
+};
+
+/**
+ * Opts out of answer notifications and drops this browser's push subscription.
+ */
+export const disableNotifications = async (): Promise<void> => {
+  await updateSyncConfig({ notifications: false });
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+    await subscription?.unsubscribe();
+  } catch (error) {
+    logger.error('Notifications: Could not unsubscribe from push messages.', error);
+  }
+};
+
+/**
+ * Announces a freshly generated answer if it took long enough that the user switched away.
+ * The Service Worker decides whether to show it, so nothing appears unless the user opted in.
+ * @param result The new answer.
+ * @param rootId The ID of the thread it belongs to.
+ * @param startedAt When the search started (`Date.now()`).
+ */
+export const notifyAnswerIfHidden = async (result: SearchResult, rootId: string, startedAt: number): Promise<void> => {
+  if (document.visibilityState !== 'hidden' || Date.now() - startedAt < LONG_ANSWER_THRESHOLD) return;
+  try {
+    await requestServiceWorker({
+      type: 'LOCAL_PUSH',
+      notification: {
+        title: 'Your answer is ready',
+        body: result.query || result.title,
+        url: threadUrl(rootId),
+        tag: `answer-${result.id}`,
+      },
+    });
+  } catch (error) {
+    logger.error('Notifications: Could not announce the answer.', error);
+  }
+};
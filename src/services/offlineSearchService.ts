@@ -0,0 +1,76 @@
+import { logger } from '../utils/logger';
+import { getAllRootConversations, getConversationThread, getSearchHistory, normalizeQuery } from './cacheService';
+import type { SearchResult } from '../types/search';
+
+// Minimum trigram similarity (0-1) for a local thread to be offered for an offline question
+export const OFFLINE_MATCH_THRESHOLD = 0.5;
+const MAX_OFFLINE_MATCHES = 5;
+
+/**
+ * Reports whether the browser has lost its network connection.
+ * `navigator.onLine` can report online behind a captive portal, but offline is reliable.
+ */
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Reports whether a Service Worker controls the page and can therefore hold questions asked offline.
+ */
+export const canQueueQueries = (): boolean =>
+  typeof navigator !== 'undefined' && Boolean(navigator.serviceWorker?.controller);
+
+// Character trigrams of a normalized query, padded so short words still produce some
+const trigrams = (text: string): Set<string> => {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+/**
+ * Scores how alike two normalized queries are with the Dice coefficient of their trigrams,
+ * which tolerates typos, plurals and reordered words.
+ * @returns A similarity between 0 and 1.
+ */
+const querySimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  gramsA.forEach(gram => {
+    if (gramsB.has(gram)) shared++;
+  });
+  return (2 * shared) / (gramsA.size + gramsB.size);
+};
+
+/**
+ * Finds locally stored threads whose question resembles the query, for answering while offline.
+ * Candidates are the cached root conversations and the search history; history items whose
+ * thread has expired are skipped.
+ * @param query - The user's query.
+ * @returns The matching threads, most similar first, marked as cached with their similarity.
+ */
+export const findLocalMatches = async (query: string): Promise<SearchResult[]> => {
+  try {
+    const normalized = normalizeQuery(query);
+    const [roots, history] = await Promise.all([getAllRootConversations(), getSearchHistory()]);
+
+    const scores = new Map<string, number>();
+    const score = (id: string, candidate?: string) => {
+      if (!candidate) return;
+      const similarity = querySimilarity(normalized, normalizeQuery(candidate));
+      if (similarity >= OFFLINE_MATCH_THRESHOLD && similarity > (scores.get(id) ?? 0)) scores.set(id, similarity);
+    };
+    roots.forEach(root => score(root.id, root.query));
+    history.forEach(item => score(item.resultId, item.query));
+
+    const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_OFFLINE_MATCHES);
+    const threads = await Promise.all(ranked.map(([id]) => getConversationThread(id)));
+    return threads.flatMap((thread, index): SearchResult[] =>
+      thread ? [{ ...thread, isCached: true, similarity: ranked[index][1] }] : []
+    );
+  } catch (error) {
+    logger.error('OfflineSearch: Error matching local threads:', error);
+    return [];
+  }
+};
@@ -2,38 +2,51 @@ import {
   saveSearchResult, 
   getSearchResult,
   getConversationThread,
+  getAncestorChain,
+  normalizeQuery,
+  renameThread,
 } from './cacheService';
 import { findSimilarCachedResults } from './cacheSimilarityService';
+import { canQueueQueries, findLocalMatches, isOffline } from './offlineSearchService';
+import { buildFollowUpMessages, flattenMessages } from './conversationContextService';
 import { logger } from '../utils/logger';
+import { sha512 } from '../utils/hashUtils';
 import { eventBus } from '../lib/eventBus';
-import type { SearchResult } from '../types/search';
-
-interface SearchResponse {
-  results: SearchResult[];
-}
+import { readEventStream } from '../utils/streamReader';
+import { getProvider, LlmProviderError, type LlmAnswer, type LlmProvider, type LlmRequest } from './llmProviderService';
+import { ANSWER_SCHEMA_DESCRIPTION, parseAnswer, previewPartialAnswer } from './answerParserService';
+import type { ChatMessage, SearchResult } from '../types/search';
 
 // System prompt for initial queries
 const SEARCHGPT_SYSTEM_PROMPT = `You are "SearchGPT," a web-aware search assistant. When given a query:
 1. Perform a web search to identify the top authoritative sources.
-2. Synthesize concise bullet-point answers (3–5 items). Include FAQ sections for commonly asked questions in the context of the user query.
-3. After each bullet, include numbered citations for the sources used.
-4. Provide a "Sources" list at the end with full URLs.
-5. If unsure, indicate "I'm unable to find reliable information."
+2. Synthesize concise bullet-point answers (3–5 items). Include FAQ items for commonly asked questions in the context of the user query.
+3. For each bullet and FAQ answer, list the numbers of the sources used in "citations".
+4. List every cited source with its full URL, page title and a short relevant snippet.
+5. If unsure, return a single bullet stating "I'm unable to find reliable information."
 
-Format your response with numbered bullet points, each followed by citations in brackets [1], [2], etc. End with a "Sources:" section listing the URLs.`;
+Respond with JSON only, no prose or code fences, matching this schema:
+${ANSWER_SCHEMA_DESCRIPTION}`;
 
 // System prompt specifically for follow-up questions
 const FOLLOWUP_SYSTEM_PROMPT = `You are SearchGPT, a web-aware search assistant. You are continuing a previous conversation.
 Your task is to provide a concise, cited answer to a follow-up question, building directly on the provided context.
-1. **Context Preservation:** Refer to the previous answer's content as the primary context.
+1. **Context Preservation:** Use the earlier turns of the conversation (and any summary of them) as the primary context.
 2. **Chain-of-Thought:** Think step-by-step to explain your reasoning process if the question requires deeper analysis.
 3. **Scoped Questioning:** Focus precisely on the follow-up question, avoiding unnecessary elaboration.
-4. **Format:** Return answers in bullet points or numbered lists, consistent with previous responses.
-5. **Citations:** Include numbered citations [1], [2], etc., after each point, and provide a "Sources:" list with full URLs at the end.
-6. If unsure, state "I'm unable to find reliable information on this specific follow-up."`;
+4. **Format:** Return the answer as bullets, with FAQ items only where they add value.
+5. **Citations:** For each bullet and FAQ answer, list the numbers of the sources used in "citations", and list every cited source with its full URL, title and snippet.
+6. If unsure, return a single bullet stating "I'm unable to find reliable information on this specific follow-up."
+
+Respond with JSON only, no prose or code fences, matching this schema:
+${ANSWER_SCHEMA_DESCRIPTION}`;
+
+// Root result IDs are the SHA-512 of the normalized query, so equivalent
+// queries ("What is X?" and "what is x") share one collision-free cache entry
+const generateRootId = async (q: string) => `root-${await sha512(normalizeQuery(q))}`;
 
-// Helper function to generate a consistent hash for a query
-const generateQueryHash = (q: string) => {
+// Pre-SHA root ID scheme (32-bit hash of the raw query); only used to migrate older cached threads
+const legacyQueryHash = (q: string) => {
   let hash = 0;
   for (let i = 0; i < q.length; i++) {
     const char = q.charCodeAt(i);
@@ -43,119 +56,335 @@ const generateQueryHash = (q: string) => {
   return `root-${hash}`;
 };
 
+// Looks up the cached thread for a root query, moving it from its legacy ID on first access
+const getRootThread = async (query: string): Promise<SearchResult | null> => {
+  const rootId = await generateRootId(query);
+  const thread = await getConversationThread(rootId);
+  if (thread) return thread;
+
+  const migrated = await renameThread(legacyQueryHash(query), rootId);
+  return migrated ? getConversationThread(rootId) : null;
+};
+
 // This function is now replaced by the more robust cacheSimilarityService
 // const getSimilarCachedResults = ...
 
-// Fetches results from the DeepSeek API via Supabase
-const fetchFromDeepSeek = async (query: string, parentResult?: SearchResult, userId?: string): Promise<SearchResult[]> => {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
+// Idle timeout for the LLM provider; reset on every streamed chunk
+const REQUEST_TIMEOUT = 60000;
 
-    const currentSystemPrompt = parentResult ? FOLLOWUP_SYSTEM_PROMPT : SEARCHGPT_SYSTEM_PROMPT;
-    const finalQuery = parentResult
-      ? `Previous answer: "${parentResult.content.substring(0, 200)}...". Follow-up question: ${query}`
-      : query;
-
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_EDGE_FUNCTION_URL;
-    const response = await fetch(supabaseUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
-      body: JSON.stringify({ query: finalQuery, systemPrompt: currentSystemPrompt }),
-      signal: controller.signal
-    });
+// Callback receiving the partially assembled result while an answer streams in
+export type SearchProgressHandler = (partial: SearchResult) => void;
+
+// Whether the semantic cache and the LLM are queried together ('concurrent') or one after the other by default.
+// Concurrent mode calls the LLM even when a cached answer matches, so it is opt-in
+export const DEFAULT_CONCURRENT_SEARCH = import.meta.env.VITE_SEARCH_MODE === 'concurrent';
+
+export interface SearchOptions {
+  onProgress?: SearchProgressHandler; // Enables streaming mode
+  signal?: AbortSignal; // Aborts the LLM request and the similarity lookup
+  providerId?: string; // LLM provider chosen in the UI; defaults to VITE_LLM_PROVIDER
+  similarityThreshold?: number; // Minimum similarity (0-1) to answer from the semantic cache
+  concurrent?: boolean; // Start the similarity lookup and the LLM request together
+  onCachedResults?: (results: SearchResult[]) => void; // Receives cached matches as soon as they arrive in concurrent mode
+}
+
+export interface SearchOutcome {
+  cachedResults: SearchResult[];
+  apiResults: SearchResult[]; // In concurrent mode both lists may be filled
+  cancelled?: boolean; // Set when the caller aborted the search; no fallback is inserted
+  queued?: boolean; // Set when the browser is offline and the question waits for the connection
+}
+
+// A question asked offline, run by the Service Worker once the connection returns
+export interface QueuedQueryRequest {
+  query: string;
+  parentId?: string; // Root of the thread a follow-up belongs to
+  userId?: string;
+  providerId?: string;
+}
+
+/**
+ * Builds the placeholder shown when the LLM returns nothing usable.
+ * @param query - The user's query.
+ * @returns A fallback SearchResult that is never cached.
+ */
+const createFallbackResult = (query: string): SearchResult => ({
+  id: `fallback-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+  title: `SearchGPT Results for: ${query}`,
+  content: 'I\'m unable to find reliable information at this time. Please try again later or refine your search query.',
+  confidence: 0,
+  category: 'Error',
+  timestamp: Date.now(),
+  sources: [],
+  isFallback: true
+});
+
+/**
+ * Builds the placeholder shown for a question queued while offline.
+ * @param query - The user's query.
+ * @param parentResult - The thread a follow-up belongs to.
+ * @returns A queued SearchResult that is never cached.
+ */
+const createQueuedResult = (query: string, parentResult?: SearchResult): SearchResult => ({
+  id: `queued-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+  query,
+  title: `SearchGPT: ${query}`,
+  content: 'You\'re offline. This question is queued and will be answered automatically when your connection returns.',
+  confidence: 0,
+  category: 'Queued',
+  timestamp: Date.now(),
+  sources: [],
+  parentId: parentResult?.id,
+  followUpQuery: parentResult ? query : undefined,
+  isQueued: true
+});
+
+/**
+ * Builds the result shown for a question asked offline that cannot be queued, because no Service Worker controls the page.
+ * @param query - The user's query.
+ * @returns A fallback result asking the user to try again once online.
+ */
+const createOfflineResult = (query: string): SearchResult => ({
+  ...createFallbackResult(query),
+  content: 'You\'re offline, and this question could not be saved for later. Please ask again when your connection returns.',
+});
+
+// Parses the raw model output (structured JSON, or text with a "Sources:" list) into a SearchResult.
+// Partial results from a stream are previewed instead of validated.
+const processResult = (
+  result: LlmAnswer,
+  id: string,
+  query: string,
+  parentResult?: SearchResult,
+  isPartial = false
+): SearchResult => {
+  const parsed = isPartial ? previewPartialAnswer(result.content) : parseAnswer(result.content, result.sources);
+  const title = parsed.title || result.title;
+
+  return {
+    confidence: 0,
+    category: 'General',
+    timestamp: Date.now(),
+    ...result,
+    id,
+    query,
+    parentId: parentResult?.id,
+    followUpQuery: parentResult ? query : undefined,
+    content: parsed.content,
+    sources: parsed.sources,
+    title: title.includes('SearchGPT') ? title : `SearchGPT: ${title}`
+  };
+};
+
+// Saves the final result locally and asks the Service Worker to sync it
+const persistResults = async (processedResults: SearchResult[], userId?: string): Promise<void> => {
+  if (processedResults.length === 0) return;
+
+  await saveSearchResult(processedResults[0]);
+  // The Service Worker client drops the request when no webhook is configured at build time or at runtime
+  const finalUserId = userId || 'unknown';
+  const fingerprintId = localStorage.getItem('searchGptFingerprintId') || 'unknown';
+  eventBus.dispatchEvent(
+    new CustomEvent('sync-request', {
+      detail: {
+        webhookUrl: import.meta.env.VITE_CACHE_WEBHOOK_URL,
+        payload: { results: processedResults, userId: finalUserId, fingerprintId },
+      },
+    })
+  );
+};
+
+// Assembles a single result from streamed events, reporting progress after each delta
+const readStreamedResult = async (
+  response: Response,
+  provider: LlmProvider,
+  id: string,
+  query: string,
+  parentResult: SearchResult | undefined,
+  onProgress: SearchProgressHandler,
+  onChunk: () => void
+): Promise<SearchResult[]> => {
+  const assembled: LlmAnswer = {
+    title: query,
+    content: '',
+    confidence: 0,
+    category: 'General',
+    sources: []
+  };
+
+  await readEventStream(response, (raw) => {
+    const event = provider.parseStreamEvent(raw);
+    if (!event) return;
+    if (event.title) assembled.title = event.title;
+    if (typeof event.confidence === 'number') assembled.confidence = event.confidence;
+    if (event.category) assembled.category = event.category;
+    if (event.delta) {
+      assembled.content += event.delta;
+      onProgress({ ...processResult(assembled, id, query, parentResult, true), isStreaming: true });
+    }
+  }, onChunk);
 
+  if (!assembled.content.trim()) return [];
+  return [processResult(assembled, id, query, parentResult)];
+};
+
+// Fetches results from the selected LLM provider (the DeepSeek edge function by default).
+// When onProgress is given the provider is asked to stream (SSE or NDJSON);
+// servers that answer with plain JSON are still handled by the buffered path.
+const fetchFromProvider = async (
+  query: string,
+  parentResult?: SearchResult,
+  userId?: string,
+  { onProgress, signal, providerId }: SearchOptions = {}
+): Promise<SearchResult[]> => {
+  const provider = getProvider(providerId);
+  const controller = new AbortController();
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller, { once: true });
+  let timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  const resetTimeout = () => {
     clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  };
+
+  try {
+    const currentSystemPrompt = parentResult ? FOLLOWUP_SYSTEM_PROMPT : SEARCHGPT_SYSTEM_PROMPT;
+    // Follow-ups carry the whole thread as chat messages, token-budgeted by the context service
+    const messages: ChatMessage[] = parentResult
+      ? buildFollowUpMessages(currentSystemPrompt, await getAncestorChain(parentResult.id), parentResult, query)
+      : [{ role: 'system', content: currentSystemPrompt }, { role: 'user', content: query }];
+    // `query` stays a single string for edge functions that ignore `messages`
+    const finalQuery = parentResult ? flattenMessages(messages) : query;
+    const resultId = parentResult ? `${parentResult.id}-${Date.now()}` : await generateRootId(query);
+    const llmRequest: LlmRequest = { query: finalQuery, systemPrompt: currentSystemPrompt, messages, stream: Boolean(onProgress) };
+
+    const { url, init } = provider.buildRequest(llmRequest);
+    const response = await fetch(url, { ...init, signal: controller.signal });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      logger.error(`HTTP ${response.status}:`, errorText);
-      throw new Error(`Server error: ${response.status}`);
+      throw provider.mapError(response.status, await response.text());
     }
 
-    const data: SearchResponse = await response.json();
-    const processedResults = data.results?.map(result => {
-      const parts = result.content.split('Sources:');
-      const mainContent = parts[0].trim();
-      // Ensure sourcesSection is an array of strings
-      const sourcesSection = parts[1] ? parts[1].trim().split('\n').filter(s => s.length > 0) : result.sources || [];
-      
-      return {
-        ...result,
-        id: parentResult ? `${parentResult.id}-${Date.now()}` : generateQueryHash(query),
-        parentId: parentResult?.id,
-        followUpQuery: parentResult ? query : undefined,
-        content: mainContent,
-        sources: sourcesSection, // Now correctly typed as string[]
-        title: result.title.includes('SearchGPT') ? result.title : `SearchGPT: ${result.title}`
-      };
-    }) || [];
-
-    if (processedResults.length > 0) {
-      await saveSearchResult(processedResults[0]);
-      const webhookUrl = import.meta.env.VITE_CACHE_WEBHOOK_URL;
-      if (webhookUrl) {
-        const finalUserId = userId || 'unknown';
-        const fingerprintId = localStorage.getItem('searchGptFingerprintId') || 'unknown';
-        eventBus.dispatchEvent(
-          new CustomEvent('sync-request', {
-            detail: {
-              webhookUrl,
-              payload: { results: processedResults, userId: finalUserId, fingerprintId },
-            },
-          })
-        );
-      }
+    const contentType = response.headers.get('Content-Type') || '';
+    let processedResults: SearchResult[];
+    if (onProgress && (contentType.includes('text/event-stream') || contentType.includes('ndjson'))) {
+      processedResults = await readStreamedResult(response, provider, resultId, query, parentResult, onProgress, resetTimeout);
+    } else {
+      const answers = provider.parseResponse(await response.json(), llmRequest);
+      processedResults = answers.map(answer => processResult(answer, resultId, query, parentResult));
     }
 
+    // A stream cut short by the caller must not be cached as a complete answer
+    if (signal?.aborted) return [];
+
+    await persistResults(processedResults, userId);
     return processedResults;
   } catch (error) {
-    logger.error('DeepSeek search error:', error);
+    if (signal?.aborted) {
+      logger.log(`${provider.label} search cancelled by the user.`);
+    } else if (error instanceof LlmProviderError) {
+      logger.error(`LLM Provider Error: ${error.code}`, { message: error.message, context: error.context });
+    } else {
+      logger.error(`${provider.label} search error:`, error);
+    }
     return []; // Return empty array on error to not block Promise.allSettled
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
   }
 };
 
+// Looks for an exact answer in the local cache: the thread for a root query, or the reply to a follow-up
+const findCachedAnswer = async (query: string, parentResult?: SearchResult): Promise<SearchResult | null> => {
+  const cachedThread = parentResult
+    ? await getConversationThread(parentResult.id)
+    : await getRootThread(query);
+  if (!cachedThread) return null;
+  return parentResult
+    ? cachedThread.replies?.find(reply => reply.followUpQuery === query) || null
+    : cachedThread;
+};
+
+/**
+ * Answers a question that was queued while offline. The semantic cache is skipped because
+ * its local matches were already offered; the question goes to the LLM unless it was answered since.
+ * @param request - The queued question.
+ * @returns The answer, stored in the local cache and synced like any other.
+ * @throws Error when the thread of a follow-up has expired or the LLM returned nothing.
+ */
+export const answerQueuedQuery = async ({ query, parentId, userId, providerId }: QueuedQueryRequest): Promise<SearchResult> => {
+  const parentResult = parentId ? await getConversationThread(parentId) : undefined;
+  if (parentId && !parentResult) throw new Error('The conversation for this follow-up is no longer cached');
+
+  const answer = (await findCachedAnswer(query, parentResult)) || (await fetchFromProvider(query, parentResult, userId, { providerId }))[0];
+  if (!answer) throw new Error('No answer was returned');
+  return answer;
+};
+
 export const searchWithDeepSeek = async (
   query: string,
   parentResult?: SearchResult,
-  userId?: string
-): Promise<{ cachedResults: SearchResult[], apiResults: SearchResult[] }> => {
-  const cacheKey = parentResult ? parentResult.id : generateQueryHash(query);
-  
+  userId?: string,
+  options: SearchOptions = {}
+): Promise<SearchOutcome> => {
+  const { signal, similarityThreshold, providerId } = options;
+
   // First, check for a direct hit in the local cache
-  const cachedThread = await getConversationThread(cacheKey);
-  if (cachedThread) {
-    if (parentResult) {
-      const matchingReply = cachedThread.replies?.find(reply => reply.followUpQuery === query);
-      if (matchingReply) return { cachedResults: [matchingReply], apiResults: [] };
-    } else {
-      return { cachedResults: [cachedThread], apiResults: [] };
-    }
+  const cachedAnswer = await findCachedAnswer(query, parentResult);
+  if (cachedAnswer) return { cachedResults: [cachedAnswer], apiResults: [] };
+
+  // Offline: offer similar local threads and queue the question in the Service Worker, if one can hold it
+  if (isOffline()) {
+    const localMatches = parentResult ? [] : await findLocalMatches(query);
+    if (!canQueueQueries()) return { cachedResults: localMatches, apiResults: [createOfflineResult(query)] };
+    eventBus.dispatchEvent(
+      new CustomEvent<QueuedQueryRequest>('queue-query', {
+        detail: { query, parentId: parentResult?.id, userId, providerId },
+      })
+    );
+    return {
+      cachedResults: localMatches,
+      apiResults: [createQueuedResult(query, parentResult)],
+      queued: true,
+    };
+  }
+
+  // Concurrent mode: start the similarity lookup and the LLM together, previewing cached matches
+  // as soon as they arrive; the fresh answer joins them when it completes
+  if (userId && options.concurrent) {
+    const similarPromise = findSimilarCachedResults({ query, userId, threshold: similarityThreshold, signal })
+      .then(results => {
+        if (results.length > 0 && !signal?.aborted) options.onCachedResults?.(results);
+        return results;
+      });
+    const [similarResults, apiResults] = await Promise.all([
+      similarPromise,
+      fetchFromProvider(query, parentResult, userId, options),
+    ]);
+    if (signal?.aborted) return { cachedResults: [], apiResults: [], cancelled: true };
+
+    // Cached matches stand in for a failed LLM call, so a fallback is only needed without them
+    return {
+      cachedResults: similarResults,
+      apiResults: apiResults.length > 0 || similarResults.length > 0 ? apiResults : [createFallbackResult(query)],
+    };
   }
 
-  // If no direct hit, check for similar results in the cache
+  // Sequential mode: show similar cached results that clear the threshold instead of calling the LLM
   if (userId) {
-    const similarResults = await findSimilarCachedResults({ query, userId });
+    const similarResults = await findSimilarCachedResults({ query, userId, threshold: similarityThreshold, signal });
+    if (signal?.aborted) return { cachedResults: [], apiResults: [], cancelled: true };
     if (similarResults.length > 0) {
       return { cachedResults: similarResults, apiResults: [] };
     }
   }
 
-  // Finally, if no cached results, fetch from DeepSeek
-  const deepSeekResults = await fetchFromDeepSeek(query, parentResult, userId);
+  // Finally, if no cached results, fetch from the LLM provider
+  const deepSeekResults = await fetchFromProvider(query, parentResult, userId, options);
+  if (signal?.aborted) return { cachedResults: [], apiResults: [], cancelled: true };
 
   return {
     cachedResults: [],
-    apiResults: deepSeekResults.length > 0 ? deepSeekResults : [
-      {
-        id: `fallback-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
-        title: `SearchGPT Results for: ${query}`,
-        content: 'I\'m unable to find reliable information at this time. Please try again later or refine your search query.',
-        confidence: 0,
-        category: 'Error',
-        timestamp: Date.now(),
-        sources: []
-      }
-    ]
+    apiResults: deepSeekResults.length > 0 ? deepSeekResults : [createFallbackResult(query)]
   };
 };
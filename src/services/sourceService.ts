@@ -0,0 +1,69 @@
+import type { SearchResult, SearchSource } from '../types/search';
+import { normalizeSources } from './answerParserService';
+import { getSourceKey } from '../utils/sourceUtils';
+
+// A source as shown in a thread: numbered once per thread, however many answers cite it
+export interface ThreadSource extends SearchSource {
+  number: number; // Thread-wide citation number shown in markers and cards
+  firstCitedIn: string; // ID of the earliest answer in the thread that cites it
+}
+
+// The sources of one answer, resolved against the rest of its thread
+export interface ResultSources {
+  citations: Record<number, ThreadSource>; // Keyed by the answer's own [n] numbers
+  sources: ThreadSource[]; // Sources first cited by this answer
+  earlierSources: ThreadSource[]; // Sources this answer shares with earlier answers
+}
+
+/**
+ * Numbers the sources of a whole thread so that the same URL gets one number and one card,
+ * in the order answers appear (the root, then replies depth-first).
+ * @param root - The root result of the thread (or any subtree).
+ * @returns The resolved sources of every answer, keyed by result ID.
+ */
+export const buildThreadSources = (root: SearchResult | null): Map<string, ResultSources> => {
+  const byResult = new Map<string, ResultSources>();
+  const byKey = new Map<string, ThreadSource>();
+
+  const visit = (result: SearchResult) => {
+    const resolved: ResultSources = { citations: {}, sources: [], earlierSources: [] };
+    normalizeSources(result.sources).forEach(source => {
+      const key = getSourceKey(source.url);
+      let threadSource = byKey.get(key);
+      if (!threadSource) {
+        threadSource = {
+          ...source,
+          number: byKey.size + 1,
+          firstCitedIn: result.id,
+        };
+        byKey.set(key, threadSource);
+      } else {
+        // Keep the first URL but fill in details a later answer knows about
+        threadSource.title = threadSource.title || source.title;
+        threadSource.snippet = threadSource.snippet || source.snippet;
+      }
+
+      resolved.citations[source.id] = threadSource;
+      const list = threadSource.firstCitedIn === result.id ? resolved.sources : resolved.earlierSources;
+      if (!list.includes(threadSource)) list.push(threadSource);
+    });
+    byResult.set(result.id, resolved);
+    result.replies?.forEach(visit);
+  };
+
+  if (root) visit(root);
+  return byResult;
+};
+
+/**
+ * Turns `[n]` citation markers into `#cite-N` markdown links, where N is the thread-wide
+ * number, so the markdown renderer can show them as citation previews.
+ * @param content - The answer markdown.
+ * @param citations - The answer's citations, keyed by its own numbers.
+ * @returns The markdown with linked citation markers.
+ */
+export const linkCitations = (content: string, citations: Record<number, ThreadSource> = {}): string =>
+  content.replace(/\[(\d+)\](?![(:[])/g, (_match, number: string) => {
+    const threadNumber = citations[Number(number)]?.number ?? Number(number);
+    return `[\\[${threadNumber}\\]](#cite-${threadNumber})`;
+  });
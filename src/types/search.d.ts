@@ -3,12 +3,22 @@ export interface SearchHistoryItem {
   query: string;
   timestamp: number;
   resultId: string; // Reference to the cached SearchResult
+  pinned?: boolean; // Pinned items are listed first and never trimmed from history
+}
+
+// A source cited in an answer; `id` is the number used in [n] citation markers
+export interface SearchSource {
+  id: number;
+  url: string;
+  title?: string;
+  domain?: string; // Hostname without `www.`, derived from the URL
+  snippet?: string;
 }
 
 export interface CacheResult {
   id: string;
   content: string;
-  sources: string[];
+  sources: SearchSource[];
   similarity: number;
 }
 
@@ -25,13 +35,21 @@ export interface SearchResult {
   confidence: number;
   category: string;
   timestamp: string | number;
-  sources?: string[] | null;
+  sources?: SearchSource[] | null;
   parentId?: string;
   followUpQuery?: string;
   replies?: SearchResult[];
   isReplying?: boolean;
   isLoading?: boolean;
   isCached?: boolean;
+  similarity?: number; // Similarity (0-1) of a cached match to the query, when known
   isFallback?: boolean;
+  isStreaming?: boolean; // True while the answer is still being streamed in
+  isQueued?: boolean; // Placeholder for a question asked offline; answered when the connection returns
   rootId?: string;
 }
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
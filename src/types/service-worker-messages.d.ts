@@ -1,4 +0,0 @@
-export interface ServiceWorkerConfigMessage {
-  type: 'SET_CONFIG';
-  webhookUrl: string;
-}
@@ -19,6 +19,7 @@ interface ServiceWorkerGlobalScopeEventMap {
   "push": PushEvent;
   "pushsubscriptionchange": ExtendableEvent;
   "sync": SyncEvent;
+  "periodicsync": PeriodicSyncEvent;
 }
 
 interface ExtendableEvent extends Event {
@@ -64,9 +65,31 @@ interface SyncEvent extends ExtendableEvent {
   tag: string;
 }
 
+interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+// Background Sync and Periodic Background Sync are not in the DOM lib yet
+interface SyncManager {
+  getTags(): Promise<string[]>;
+  register(tag: string): Promise<void>;
+}
+
+interface PeriodicSyncManager {
+  getTags(): Promise<string[]>;
+  register(tag: string, options?: { minInterval?: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+
+interface ServiceWorkerRegistration {
+  readonly sync?: SyncManager;
+  readonly periodicSync?: PeriodicSyncManager;
+}
+
 interface Clients {
   claim: () => Promise<void>;
   matchAll: (options?: ClientQueryOptions) => Promise<ReadonlyArray<Client>>;
+  openWindow: (url: string) => Promise<WindowClient | null>;
 }
 
 interface ClientQueryOptions {
@@ -90,6 +113,12 @@ interface Client {
   postMessage: (message: unknown, transfer: Transferable[] | StructuredSerializeOptions) => void;
 }
 
+interface WindowClient extends Client {
+  visibilityState: DocumentVisibilityState;
+  focus: () => Promise<WindowClient>;
+  navigate: (url: string) => Promise<WindowClient | null>;
+}
+
 enum FrameType {
   auxiliary = 'auxiliary',
   topLevel = 'top-level',
@@ -0,0 +1,169 @@
+// Types for the Supabase `public` schema, in the shape produced by
+// `supabase gen types typescript --local > src/types/supabase.ts`.
+// Regenerate after changing the migrations in supabase/migrations.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      cache: {
+        Row: {
+          cache_user_result: number
+          created_at: string
+          embeddings: string | null
+          id: number
+          query_hash: string
+        }
+        Insert: {
+          cache_user_result: number
+          created_at?: string
+          embeddings?: string | null
+          id?: number
+          query_hash: string
+        }
+        Update: {
+          cache_user_result?: number
+          created_at?: string
+          embeddings?: string | null
+          id?: number
+          query_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cache_cache_user_result_fkey"
+            columns: ["cache_user_result"]
+            isOneToOne: false
+            referencedRelation: "cacheUserResults"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cachedQueryResults: {
+        Row: {
+          cache_id: number
+          created_at: string
+          id: number
+          user_id: string
+          user_query_hash: string
+        }
+        Insert: {
+          cache_id: number
+          created_at?: string
+          id?: number
+          user_id?: string
+          user_query_hash: string
+        }
+        Update: {
+          cache_id?: number
+          created_at?: string
+          id?: number
+          user_id?: string
+          user_query_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cachedQueryResults_cache_id_fkey"
+            columns: ["cache_id"]
+            isOneToOne: false
+            referencedRelation: "cache"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cacheUserResults: {
+        Row: {
+          content: string
+          created_at: string
+          fingerprint_id: string | null
+          followUpQuery: string | null
+          id: number
+          parent_id: string | null
+          query: string | null
+          root_id: string | null
+          sources: Json | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          fingerprint_id?: string | null
+          followUpQuery?: string | null
+          id?: number
+          parent_id?: string | null
+          query?: string | null
+          root_id?: string | null
+          sources?: Json | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          fingerprint_id?: string | null
+          followUpQuery?: string | null
+          id?: number
+          parent_id?: string | null
+          query?: string | null
+          root_id?: string | null
+          sources?: Json | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      match_cached_results: {
+        Args: {
+          query_embedding: string
+          match_user_id: string
+          match_threshold: number
+          match_count: number
+        }
+        Returns: {
+          id: number
+          query: string | null
+          content: string
+          sources: Json | null
+          created_at: string
+          updated_at: string | null
+          parent_id: string | null
+          root_id: string | null
+          followUpQuery: string | null
+          similarity: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
+
+export type FunctionReturns<FunctionName extends keyof PublicSchema["Functions"]> =
+  PublicSchema["Functions"][FunctionName]["Returns"]
@@ -1,18 +1,22 @@
 // src/utils/clearCache.js
-// This script will clear all local storage items related to search cache
+// This script will clear all search cache data from IndexedDB and any legacy local storage items
 import { logger } from './logger';
 
-logger.log('Clearing search cache from local storage...');
+logger.log('Clearing search cache...');
 
 try {
-  // Remove all items with the 'conv_' prefix
+  // Remove any legacy items with the 'conv_' prefix that were never migrated
   Object.keys(localStorage).forEach(key => {
     if (key.startsWith('conv_')) {
       localStorage.removeItem(key);
       logger.log(`Removed cache entry: ${key}`);
     }
   });
-  logger.log('Search cache cleared successfully.');
+
+  // Conversations and history now live in the 'shodhan-cache' IndexedDB database
+  const request = indexedDB.deleteDatabase('shodhan-cache');
+  request.onsuccess = () => logger.log('Search cache cleared successfully.');
+  request.onerror = () => logger.error('Error deleting search cache database:', request.error);
 } catch (error) {
   logger.error('Error clearing search cache:', error);
 }
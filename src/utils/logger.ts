@@ -1,17 +1,34 @@
 const isDevelopment = import.meta.env.DEV;
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+// Everything is logged in development and nothing in production, unless overridden with setLogLevel
+let logLevel: LogLevel = isDevelopment ? 'debug' : 'silent';
+
+const shouldLog = (level: LogLevel) => LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(logLevel);
+
+/**
+ * Changes the minimum level logged in this context (page or Service Worker).
+ * @param level The least severe level to log; `silent` turns logging off.
+ */
+export const setLogLevel = (level: LogLevel) => {
+  logLevel = level;
+};
+
 export const logger = {
   log: (...args: unknown[]) => {
-    if (isDevelopment) console.log(...args);
+    if (shouldLog('info')) console.log(...args);
   },
   warn: (...args: unknown[]) => {
-    if (isDevelopment) console.warn(...args);
+    if (shouldLog('warn')) console.warn(...args);
   },
   error: (...args: unknown[]) => {
-    if (isDevelopment) console.error(...args);
+    if (shouldLog('error')) console.error(...args);
   },
-  // Add the debug method for detailed development-only logging.
+  // Detailed logging, shown only at the debug level
   debug: (...args: unknown[]) => {
-    if (isDevelopment) console.debug(...args);
+    if (shouldLog('debug')) console.debug(...args);
   }
 };
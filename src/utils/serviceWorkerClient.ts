@@ -1,24 +1,292 @@
 import { logger } from './logger';
 import { eventBus } from '../lib/eventBus';
+import { supabase } from '../lib/supabase';
+import { getAllCacheEntries } from '../services/cacheService';
+import { answerQueuedQuery, type QueuedQueryRequest } from '../services/searchService';
+import {
+  parseWorkerMessage,
+  respond,
+  respondWithError,
+  sendRequest,
+  ServiceWorkerProtocolError,
+  SKIP_WAITING_MESSAGE,
+  type PageRequest,
+  type ResponseMap,
+  type UnsyncedEntries,
+  type WorkerEvent,
+  type WorkerRequest,
+} from '../lib/swProtocol';
+import type { SyncConfig } from '../lib/syncConfig';
+
+type WorkerEventListener = (event: WorkerEvent) => void;
+
+const workerEventListeners = new Set<WorkerEventListener>();
+
+let protocolMismatchReported = false;
+
+// The worker's sync configuration as last reported; null until it has answered GET_CONFIG
+let activeConfig: SyncConfig | null = null;
+
+// Set when the user has accepted an update, so the page reloads once the new worker takes control
+let reloadOnControllerChange = false;
+
+// Set once a worker is waiting, for listeners that subscribe after it was announced
+let updateAvailable = false;
+
+// A page and worker on different protocol versions cannot sync; tell the app once so it can ask for a reload
+const reportProtocolError = (error: unknown) => {
+  if (error instanceof ServiceWorkerProtocolError && error.code === 'SW-426' && !protocolMismatchReported) {
+    protocolMismatchReported = true;
+    eventBus.dispatchEvent(new CustomEvent('sw-protocol-mismatch', { detail: error.context }));
+  }
+};
+
+/**
+ * Sends a request to the active Service Worker and waits for its response.
+ * @param message - The request.
+ * @returns The response payload.
+ * @throws ServiceWorkerProtocolError - SW-503 when no worker is active, or any error from `sendRequest`.
+ */
+export const requestServiceWorker = async <T extends PageRequest>(message: T): Promise<ResponseMap[T['type']]> => {
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) {
+    throw new ServiceWorkerProtocolError('SW-503', 'No active Service Worker', { type: message.type });
+  }
+  try {
+    return await sendRequest(registration.active, message);
+  } catch (error) {
+    reportProtocolError(error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribes to the events the Service Worker broadcasts.
+ * @param listener - Called with each validated event.
+ * @returns A function that unsubscribes the listener.
+ */
+export const onServiceWorkerEvent = (listener: WorkerEventListener): (() => void) => {
+  workerEventListeners.add(listener);
+  return () => {
+    workerEventListeners.delete(listener);
+  };
+};
+
+const setActiveConfig = (config: SyncConfig) => {
+  activeConfig = config;
+  eventBus.dispatchEvent(new CustomEvent('sync-config-change', { detail: config }));
+};
+
+/** The worker's sync configuration as last reported, or null before it has been read. */
+export const getActiveSyncConfig = (): SyncConfig | null => activeConfig;
+
+/**
+ * Reads the worker's sync configuration. Listeners of `sync-config-change` receive it too.
+ * @returns The configuration in effect.
+ */
+export const fetchSyncConfig = async (): Promise<SyncConfig> => {
+  const { config } = await requestServiceWorker({ type: 'GET_CONFIG' });
+  setActiveConfig(config);
+  return config;
+};
+
+/**
+ * Changes the worker's sync configuration; omitted fields keep their value.
+ * @param update - The fields to change.
+ * @returns The configuration now in effect.
+ * @throws ServiceWorkerProtocolError - SW-400 when the worker rejects the update.
+ */
+export const updateSyncConfig = async (update: Partial<SyncConfig>): Promise<SyncConfig> => {
+  const { config } = await requestServiceWorker({ type: 'SET_CONFIG', config: update });
+  setActiveConfig(config);
+  return config;
+};
+
+// Tells the app once about an installed worker waiting to replace the one controlling this page
+const announceWaitingWorker = (worker: ServiceWorker) => {
+  logger.log('Client: A new Service Worker is waiting to activate.');
+  updateAvailable = true;
+  eventBus.dispatchEvent(new CustomEvent('sw-update-available', { detail: worker }));
+};
+
+/**
+ * Watches a registration for updates. A worker that finishes installing while another controls
+ * the page waits; on a first install nothing is controlling the page and nothing is announced.
+ * @param registration - The page's Service Worker registration.
+ */
+const watchForUpdates = (registration: ServiceWorkerRegistration) => {
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    announceWaitingWorker(registration.waiting);
+  }
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        announceWaitingWorker(installing);
+      }
+    });
+  });
+};
+
+/** Whether an update is waiting, in case `sw-update-available` fired before the caller listened. */
+export const isServiceWorkerUpdateAvailable = (): boolean => updateAvailable;
+
+/**
+ * Activates the waiting worker and reloads the page once it has taken control. The active worker
+ * first finishes its in-flight sync, so the new one takes over the queue without double sends.
+ * Without a waiting worker (another tab already activated it), the page just reloads.
+ */
+export const applyServiceWorkerUpdate = async (): Promise<void> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  const waiting = registration?.waiting;
+  if (!waiting) {
+    window.location.reload();
+    return;
+  }
+  try {
+    const { pending } = await requestServiceWorker({ type: 'HAND_OFF' });
+    logger.log(`Client: Active Service Worker handed off ${pending} pending entries.`);
+  } catch (error) {
+    // An active worker from another build cannot hand off; its queue is still durable
+    logger.error('Client: Service Worker hand-off failed; activating the update anyway.', error);
+  }
+  reloadOnControllerChange = true;
+  waiting.postMessage(SKIP_WAITING_MESSAGE);
+};
+
+/**
+ * Collects every entry in the conversation cache for the worker's PULL_UNSYNCED request.
+ * The worker compares them with its synced markers and uploads only the delta.
+ */
+const collectCacheEntries = async (): Promise<UnsyncedEntries> => {
+  const [entries, { data: { session } }] = await Promise.all([
+    getAllCacheEntries(),
+    supabase.auth.getSession(),
+  ]);
+  return {
+    entries: entries.map(({ value, expires }) => ({ value, expires })),
+    userId: session?.user.id || 'unknown',
+    fingerprintId: localStorage.getItem('searchGptFingerprintId') || 'unknown',
+  };
+};
+
+const handleWorkerRequest = async (request: WorkerRequest, port: MessagePort, id: string) => {
+  try {
+    switch (request.type) {
+      case 'PULL_UNSYNCED':
+        respond(port, id, await collectCacheEntries());
+        break;
+      case 'RUN_QUERY': {
+        const answer = await answerQueuedQuery(request.query);
+        respond(port, id, { resultId: answer.id });
+        break;
+      }
+    }
+  } catch (error) {
+    logger.error(`Client: Error answering ${request.type}.`, error);
+    respondWithError(port, id, error);
+  }
+};
+
+// Confirms the active worker speaks this page's protocol version, then reads its sync configuration
+const negotiateProtocol = async () => {
+  try {
+    const { version } = await requestServiceWorker({ type: 'HELLO' });
+    logger.log('Client: Service Worker protocol version', version);
+    await fetchSyncConfig();
+    if (navigator.onLine) await runQueuedQueries();
+  } catch (error) {
+    logger.error('Client: Service Worker protocol handshake failed.', error);
+  }
+};
+
+// Questions queued while offline are answered by this page, so the worker needs one open to run them
+const runQueuedQueries = async () => {
+  try {
+    await requestServiceWorker({ type: 'RUN_QUEUED_QUERIES' });
+  } catch (error) {
+    logger.error('Client: Error asking Service Worker to run queued queries.', error);
+  }
+};
+
+// Lets the worker pull unsynced entries when the page regains focus; it throttles the pulls
+const requestPullSync = async () => {
+  if (document.visibilityState !== 'visible') return;
+  try {
+    await requestServiceWorker({ type: 'PULL_SYNC' });
+  } catch (error) {
+    logger.error('Client: Error asking Service Worker to pull unsynced entries.', error);
+  }
+};
 
 if ('serviceWorker' in navigator) {
   eventBus.addEventListener('sync-request', async (event: Event) => {
-    const { detail } = event as CustomEvent;
+    const { webhookUrl: defaultWebhookUrl, payload } = (event as CustomEvent).detail;
+    // The worker's configuration overrides the build-time webhook once it is known
+    const webhookUrl = activeConfig ? activeConfig.webhookUrl : defaultWebhookUrl;
+    if (!webhookUrl || activeConfig?.enabled === false) return;
     try {
-      const registration = await navigator.serviceWorker.ready;
-      if (registration.active) {
-        logger.log('Client: Forwarding sync-request to active Service Worker.');
-        registration.active.postMessage({
-          type: 'SYNC_DATA',
-          payload: detail,
-        });
-      }
+      logger.log('Client: Forwarding sync-request to active Service Worker.');
+      const { queued } = await requestServiceWorker({ type: 'SYNC_DATA', webhookUrl, ...payload });
+      logger.log(`Client: Service Worker queued ${queued} entries for sync.`);
     } catch (error) {
       logger.error('Client: Error forwarding sync-request to Service Worker.', error);
     }
   });
 
+  eventBus.addEventListener('queue-query', async (event: Event) => {
+    const { query, parentId, userId, providerId } = (event as CustomEvent<QueuedQueryRequest>).detail;
+    try {
+      const { id } = await requestServiceWorker({ type: 'QUEUE_QUERY', query, parentId, userId, providerId });
+      logger.log(`Client: Service Worker queued query ${id} until the connection returns.`);
+    } catch (error) {
+      logger.error('Client: Error queueing query in Service Worker.', error);
+      eventBus.dispatchEvent(new CustomEvent('queue-query-failed', { detail: { query, parentId } }));
+    }
+  });
+
+  // The worker replays its queue on the `sync` event, but not every browser fires it
+  window.addEventListener('online', async () => {
+    try {
+      await requestServiceWorker({ type: 'REPLAY_SYNC' });
+    } catch (error) {
+      logger.error('Client: Error asking Service Worker to replay sync queue.', error);
+    }
+    await runQueuedQueries();
+  });
+
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+    let message: ReturnType<typeof parseWorkerMessage>;
+    try {
+      message = parseWorkerMessage(event.data);
+    } catch (error) {
+      logger.error('Client: Rejected message from Service Worker:', { data: event.data, error });
+      reportProtocolError(error);
+      return;
+    }
+
+    if (message.type === 'PULL_UNSYNCED' || message.type === 'RUN_QUERY') {
+      if (event.ports[0]) handleWorkerRequest(message as WorkerRequest, event.ports[0], message.id);
+      return;
+    }
+    const workerEvent = message as WorkerEvent;
+    if (workerEvent.type === 'SYNC_CONFIG') setActiveConfig(workerEvent.config);
+    workerEventListeners.forEach(listener => listener(workerEvent));
+  });
+
+  document.addEventListener('visibilitychange', requestPullSync);
+  window.addEventListener('focus', requestPullSync);
+
+  // A new worker takes control on first install, and on updates any tab has accepted
   navigator.serviceWorker.addEventListener('controllerchange', () => {
     logger.log('Client: Service Worker controller has changed.');
+    if (reloadOnControllerChange) {
+      window.location.reload();
+      return;
+    }
+    negotiateProtocol();
   });
+
+  navigator.serviceWorker.ready.then(watchForUpdates);
+  negotiateProtocol();
 }
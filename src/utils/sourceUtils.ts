@@ -0,0 +1,65 @@
+/**
+ * Extracts a readable domain from a source URL.
+ * @param url - The source URL.
+ * @returns The hostname without a leading `www.`, or the URL itself when it cannot be parsed.
+ */
+export const getSourceDomain = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Checks that a source URL is a web link. Sources come from model output and the cache,
+ * so `javascript:`, `data:` and other schemes must never be accepted.
+ * @param url - The source URL.
+ * @returns Whether the URL parses and uses `http:` or `https:`.
+ */
+export const isHttpUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Builds the favicon URL for a source's site.
+ * @param domain - The source domain.
+ * @returns A URL for a 32px favicon.
+ */
+export const getFaviconUrl = (domain: string): string =>
+  `https://www.google.com/s2/favicons?domain=${encodeURIComponent(domain)}&sz=32`;
+
+/**
+ * Reduces a URL to the form used to detect duplicates: lowercase host, no `www.`,
+ * no fragment, no tracking parameters and no trailing slash.
+ * @param url - The source URL.
+ * @returns The deduplication key.
+ */
+export const getSourceKey = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    Array.from(parsed.searchParams.keys())
+      .filter(key => key.startsWith('utm_'))
+      .forEach(key => parsed.searchParams.delete(key));
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * Reads the thread-wide citation number from a link produced by `linkCitations`.
+ * @param href - The link target.
+ * @returns The citation number, or null for ordinary links.
+ */
+export const parseCitationHref = (href?: string): number | null => {
+  const match = href?.match(/^#cite-(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
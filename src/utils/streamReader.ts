@@ -0,0 +1,74 @@
+import { logger } from './logger';
+
+/**
+ * Reads a streamed response body and invokes a callback for every parsed event.
+ * Supports Server-Sent Events (`text/event-stream`) and newline-delimited JSON
+ * (`application/x-ndjson`). The `[DONE]` sentinel used by SSE providers ends the stream.
+ * @param response The fetch response whose body is being streamed.
+ * @param onEvent Callback receiving each parsed JSON event. Errors it throws reject the returned Promise.
+ * @param onChunk Optional callback invoked whenever raw bytes arrive (used to reset idle timeouts).
+ * @returns A Promise that resolves once the stream has been fully consumed.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: unknown) => void,
+  onChunk?: () => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response body is not readable as a stream.');
+  }
+
+  const isSse = (response.headers.get('Content-Type') || '').includes('text/event-stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.trim();
+    if (!line || finished) return;
+
+    let data = line;
+    if (isSse) {
+      // Ignore SSE comments, event names and ids; only data lines carry payloads
+      if (!line.startsWith('data:')) return;
+      data = line.slice(5).trim();
+    }
+
+    if (data === '[DONE]') {
+      finished = true;
+      return;
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      logger.warn('StreamReader: Skipping malformed stream event:', data, error);
+      return;
+    }
+    // Errors from the callback are the caller's bugs, not malformed input, so they propagate
+    onEvent(event);
+  };
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk?.();
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+
+    buffer += decoder.decode();
+    if (!finished && buffer) handleLine(buffer);
+  } catch (error) {
+    // Release the connection before surfacing a callback or read error
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+  if (finished) await reader.cancel();
+}
@@ -0,0 +1,49 @@
+-- Semantic cache tables (ADR-013): answers, their embeddings, and per-user query matches.
+-- Runs on Supabase or on a plain Postgres with the pgvector extension installed.
+
+create schema if not exists extensions;
+create extension if not exists vector with schema extensions;
+
+-- Answers synced from clients
+create table if not exists public."cacheUserResults" (
+  id bigint generated by default as identity not null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone null,
+  user_id uuid null,
+  fingerprint_id text null, -- Custom UUID from ADR-012
+  query text null,
+  content text not null,
+  sources jsonb null, -- Structured sources: [{ id, url, title?, domain?, snippet? }]
+  parent_id text null, -- Client-side SearchResult IDs for follow-up threads
+  root_id text null,
+  "followUpQuery" text null,
+  constraint "cacheUserResults_pkey" primary key (id)
+);
+
+-- One embedded entry per cached answer. The dimension must match the embedding model
+-- used by the webhook and VITE_CACHE_EMBEDDING_URL (1536 for OpenAI text-embedding-3-small).
+create table if not exists public.cache (
+  id bigint generated by default as identity not null,
+  created_at timestamp with time zone not null default now(),
+  cache_user_result bigint not null,
+  query_hash text not null,
+  embeddings extensions.vector(1536) null,
+  constraint cache_pkey primary key (id),
+  constraint cache_cache_user_result_fkey foreign key (cache_user_result)
+    references public."cacheUserResults" (id) on delete cascade
+);
+
+-- Matches written by the similarity webhook for a user's query hash
+create table if not exists public."cachedQueryResults" (
+  id bigint generated by default as identity not null,
+  created_at timestamp with time zone not null default now(),
+  user_id uuid not null default gen_random_uuid(),
+  cache_id bigint not null,
+  user_query_hash text not null,
+  constraint "cachedQueryResults_pkey" primary key (id),
+  constraint "cachedQueryResults_cache_id_fkey" foreign key (cache_id)
+    references public.cache (id) on update restrict on delete cascade
+);
+
+create index if not exists "cachedQueryResults_user_hash_idx"
+  on public."cachedQueryResults" (user_id, user_query_hash);
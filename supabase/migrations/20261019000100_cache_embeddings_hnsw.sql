@@ -0,0 +1,9 @@
+-- HNSW index for similarity search over cache.embeddings (ADR-013).
+-- match_cached_results orders by cosine distance (<=>), so the index uses the cosine
+-- operator class; the original L2 index is replaced (ADR-017).
+
+drop index if exists public.cache_embeddings_hnsw;
+
+create index if not exists cache_embeddings_hnsw_cosine
+  on public.cache using hnsw (embeddings extensions.vector_cosine_ops)
+  with (m = '16', ef_construction = '64');
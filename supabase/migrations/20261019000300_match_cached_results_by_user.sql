@@ -0,0 +1,36 @@
+-- Scopes match_cached_results to the requesting user's answers, like the webhook lookup (ADR-017).
+
+drop function if exists public.match_cached_results(extensions.vector, float, int);
+
+create or replace function public.match_cached_results(
+  query_embedding extensions.vector(1536),
+  match_user_id uuid,
+  match_threshold float,
+  match_count int
+)
+returns table (
+  id bigint,
+  query text,
+  content text,
+  sources jsonb,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  parent_id text,
+  root_id text,
+  "followUpQuery" text,
+  similarity float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+  select cur.id, cur.query, cur.content, cur.sources, cur.created_at, cur.updated_at,
+         cur.parent_id, cur.root_id, cur."followUpQuery",
+         1 - (c.embeddings <=> query_embedding) as similarity
+  from public.cache c
+  join public."cacheUserResults" cur on cur.id = c.cache_user_result
+  where c.embeddings is not null
+    and cur.user_id = match_user_id
+    and 1 - (c.embeddings <=> query_embedding) >= match_threshold
+  order by c.embeddings <=> query_embedding
+  limit match_count;
+$$;
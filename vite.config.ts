@@ -4,7 +4,7 @@ import path from "path";
 import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => ({
-  base: './', // Set to relative path for serving from any directory
+  base: '/', // Absolute so nested routes like /thread/:rootId resolve assets on refresh
   server: {
     host: "::",
     port: 8080
@@ -15,7 +15,7 @@ export default defineConfig(({ mode }) => ({
       strategies: 'injectManifest',
       srcDir: 'src',
       filename: 'service-worker.ts',
-      registerType: 'autoUpdate',
+      registerType: 'prompt',
       minify: mode === 'production' && (process.env.VITE_SW_MINIFY || 'true') !== 'false',
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],